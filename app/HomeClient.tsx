@@ -3,15 +3,72 @@
 import { useState, useEffect } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import {
+  PASSCODE_CONFIG,
+  ROOM_ID_CONFIG,
+  generateClaimCode,
   generateRoomId,
-  getOrCreateParticipantId,
-  setHostId,
+  getLastUserName,
+  hashClaimCode,
+  isValidCustomRoomId,
+  normalizeRoomId,
+  setClaimCode,
   withName,
+  withQuery,
 } from "../src/lib/utils";
 import { db } from "../src/lib/firebase";
+import { createAgendaItem, parseTopicImport } from "../src/lib/agenda";
+import {
+  REVIEW_CONFIG,
+  buildReviewIcs,
+  dateKeyAfterDays,
+  isPendingReview,
+  toDateKey,
+  toReviewSource,
+  type ReviewSource,
+} from "../src/lib/review";
+import { downloadFile } from "../src/lib/export";
+import {
+  ROOM_EXPIRY_CONFIG,
+  cleanupRoom,
+  expireRoom,
+  getRoomExpiresAtMs,
+  isExpiringSoon,
+  needsCleanup,
+} from "../src/lib/expiry";
+import {
+  DECK_CONFIG,
+  DECK_PRESETS,
+  DEFAULT_DECK,
+  EXTRA_CARDS,
+  getDeck,
+  localizeDeck,
+  localizeExtraCard,
+  type Deck,
+} from "../src/lib/deck";
+import ResultCard from "./results/ResultCard";
+import TopicImportPreview from "./TopicImportPreview";
+import { useI18n } from "./I18nProvider";
+import {
+  WORKSPACE_CONFIG,
+  buildInviteUrl,
+  createWorkspace,
+  resetInviteCode,
+  useWorkspaces,
+} from "../src/lib/workspace";
+import {
+  ensureSignedIn,
+  upgradeToGoogleAccount,
+  useAuthUser,
+} from "../src/lib/auth";
+import {
+  parseVoteResult,
+  type ParticipantRole,
+  type VoteResultEntry,
+} from "../src/lib/votes";
 import {
   doc,
   setDoc,
+  updateDoc,
   getDoc,
   getDocs,
   serverTimestamp,
@@ -20,16 +77,51 @@ import {
   query,
   limit,
   orderBy,
-  Timestamp,
+  where,
+  runTransaction,
 } from "firebase/firestore";
+import { FirebaseError } from "firebase/app";
 
-const withTimeout = <T,>(p: Promise<T>, ms: number, label: string) =>
-  Promise.race([
-    p,
-    new Promise<T>((_, reject) =>
-      setTimeout(() => reject(new Error(`${label} timeout (${ms}ms)`)), ms)
-    ),
-  ]);
+// ルームIDが空いていれば、ルーム（とホスト復帰コード・パスコードのハッシュ）を作成する
+// 既に使われている場合（他のワークスペースのルームで読めない場合も含む）は作成せず false
+const createRoomIfAbsent = async (
+  roomId: string,
+  fields: Record<string, unknown>,
+  hashes: { hostClaim: string; passcode: string | null }
+) => {
+  const roomRef = doc(db, "rooms", roomId);
+  try {
+    return await runTransaction(db, async (tx) => {
+      const snap = await tx.get(roomRef);
+      if (snap.exists()) return false;
+
+      tx.set(roomRef, fields);
+      // ハッシュは誰も読めない secrets/hostClaim・secrets/passcode に保存する
+      tx.set(doc(db, "rooms", roomId, "secrets", "hostClaim"), {
+        hash: hashes.hostClaim,
+      });
+      if (hashes.passcode) {
+        tx.set(doc(db, "rooms", roomId, "secrets", "passcode"), {
+          hash: hashes.passcode,
+        });
+      }
+      return true;
+    });
+  } catch (err) {
+    // 拒否された場合は、ルームが既にあるときだけ使用中とする
+    // （まだないルームIDは get できるため、get も拒否されたら他のワークスペースのルームがある）
+    // それ以外の拒否（ワークスペースから外れた、項目が正しくないなど）はそのまま投げる
+    if (err instanceof FirebaseError && err.code === "permission-denied") {
+      const taken = await getDoc(roomRef).then(
+        (snap) => snap.exists(),
+        (getErr) =>
+          getErr instanceof FirebaseError && getErr.code === "permission-denied"
+      );
+      if (taken) return false;
+    }
+    throw err;
+  }
+};
 
 // 結果データ抽出クエリ
 export const dynamic = "force-dynamic";
@@ -51,110 +143,146 @@ export const dynamic = "force-dynamic";
 
 export default function HomeClient() {
   const router = useRouter();
+  const { locale, t } = useI18n();
   const [roomId, setRoomId] = useState("");
   const [userName, setUserName] = useState("");
   const [isCreating, setIsCreating] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
   const [error, setError] = useState("");
   const [topic, setTopic] = useState("");
+  // 議題をまとめて入力（1行1議題・CSV・Markdown のチェックリスト）
+  const [isBulkTopics, setIsBulkTopics] = useState(false);
+  const [bulkTopicText, setBulkTopicText] = useState("");
+  // ルームで使うカードのセット（プリセットを選び、名称や追加カードを変更できる）
+  const [deck, setDeck] = useState<Deck>(DEFAULT_DECK);
+  const [isEditingDeck, setIsEditingDeck] = useState(false);
+  const [role, setRole] = useState<ParticipantRole>("voter");
+  // 一覧に表示しない / 参加にパスコードが必要なルーム
+  const [isUnlisted, setIsUnlisted] = useState(false);
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [passcode, setPasscode] = useState("");
+  const [idleTimeoutSec, setIdleTimeoutSec] = useState<number>(
+    ROOM_EXPIRY_CONFIG.IDLE_TIMEOUT_SEC
+  );
+  // 自分で決めるルームID（空なら自動で作る）
+  const [customRoomIdInput, setCustomRoomIdInput] = useState("");
 
-  type RoomOption = { id: string; topic: string; status?: string };
+  // closesInMs: 操作がないために終了するまでの残り時間（まもなく終了する場合のみ）
+  type RoomOption = {
+    id: string;
+    topic: string;
+    status?: string;
+    closesInMs?: number | null;
+  };
   const [roomOptions, setRoomOptions] = useState<RoomOption[]>([]);
 
   const searchParams = useSearchParams();
+  // ログイン中のユーザー（初回は匿名ログイン）
+  const authUser = useAuthUser();
+  const [isLinking, setIsLinking] = useState(false);
+
+  // 参加しているワークスペース（ルーム一覧・結果は選択中のワークスペースのみ）
+  const { workspaces, current: workspace, selectWorkspace } = useWorkspaces(
+    authUser?.uid
+  );
+  const workspaceId = workspace?.id ?? null;
+  const [isInviteCopied, setIsInviteCopied] = useState(false);
 
   // 投票結果取得用
   const [isResultsOpen, setIsResultsOpen] = useState(false);
-  const [results, setResults] = useState<
-    {
-      id: string;
-      roomId: string;
-      topic: string;
-      first: number | null;
-      second: number | null;
-      third: number | null;
-      votedAt: any; // Timestamp
-    }[]
-  >([]);
+  const [results, setResults] = useState<VoteResultEntry[]>([]);
+
+  // 見直し日のある決定（まだ見直していないもの、見直し日の早い順）
+  const [pendingReviews, setPendingReviews] = useState<VoteResultEntry[]>([]);
+  const [reopeningId, setReopeningId] = useState<string | null>(null);
 
   // 投票結果取得用
   const openResultsModal = async () => {
+    if (!workspaceId) {
+      setError(t("workspace.error.required"));
+      return;
+    }
+
     try {
+      await ensureSignedIn();
       const q = query(
         collection(db, "vote_results"),
+        where("workspaceId", "==", workspaceId),
+        where("hasPasscode", "==", false),
         orderBy("votedAt", "desc"),
         limit(50) // 必要に応じて
       );
       const snap = await getDocs(q);
 
-      const list = snap.docs.map((d) => {
-        const data = d.data() as any;
-        return {
-          id: d.id,
-          roomId: data.roomId,
-          topic: data.topic,
-          first: data.first ?? null,
-          second: data.second ?? null,
-          third: data.third ?? null,
-          votedAt: data.votedAt,
-        };
-      });
+      const list = snap.docs.map((d) => parseVoteResult(d.id, d.data()));
 
       setResults(list);
       setIsResultsOpen(true);
     } catch (e) {
       console.error(e);
-      alert("結果の取得に失敗しました");
+      alert(t("common.loadResultsFailed"));
     }
   };
 
-  const formatDate = (ts: Timestamp | null | undefined) => {
-    if (!ts) return "";
-    const d = ts.toDate();
-    return d.toLocaleString("ja-JP", {
-      year: "numeric",
-      month: "2-digit",
-      day: "2-digit",
-      hour: "2-digit",
-      minute: "2-digit",
-    });
-  };
-
-  const RankIcon = ({ rank }: { rank: 1 | 2 | 3 }) => {
-    if (rank === 1) return <span className="text-yellow-400 text-xl">👑</span>;
-    if (rank === 2) return <span className="text-gray-400 text-lg">🥈</span>;
-    if (rank === 3) return <span className="text-amber-700 text-lg">🥉</span>;
-    return null;
-  };
-
   useEffect(() => {
-    const nameFromQuery = searchParams.get("name");
+    // 指定がなければ前回使った名前
+    const nameFromQuery = searchParams.get("name") ?? getLastUserName();
     if (nameFromQuery) {
       setUserName(nameFromQuery);
     }
   }, [searchParams]);
 
   useEffect(() => {
-    const q = query(collection(db, "rooms"), limit(100));
+    // ルームの読み取りにはワークスペースのメンバーであることが必要
+    if (!authUser || !workspaceId) return;
+
+    // 一覧に表示しないルームは読み込まない（ルールでも一覧の取得を禁止している）
+    const q = query(
+      collection(db, "rooms"),
+      where("workspaceId", "==", workspaceId),
+      where("unlisted", "==", false),
+      limit(100)
+    );
 
     const unsub = onSnapshot(q, (snap) => {
+      const now = Date.now();
       const list: {
         id: string;
         topic: string;
         status?: string;
+        closesInMs?: number | null;
         createdAt?: any;
       }[] = [];
 
       snap.forEach((d) => {
         const data = d.data() as any;
 
-        // ended は除外
-        if (data.status === "ended") return;
+        // ended は除外（片付けが済んでいないルームは片付ける）
+        if (data.status === "ended") {
+          if (needsCleanup(data)) {
+            cleanupRoom(d.id).catch((err) => {
+              console.error("Error cleaning up room:", err);
+            });
+          }
+          return;
+        }
+
+        // 操作がないまま期限を過ぎたルームは終了して除外
+        const expiresAt = getRoomExpiresAtMs(data);
+        if (expiresAt != null && expiresAt <= now) {
+          expireRoom(d.id).catch((err) => {
+            console.error("Error expiring room:", err);
+          });
+          return;
+        }
 
         list.push({
           id: d.id,
-          topic: data.topic ?? "（未設定）",
+          topic: data.topic ?? "",
           status: data.status,
+          closesInMs: isExpiringSoon(expiresAt, now)
+            ? (expiresAt as number) - now
+            : null,
           createdAt: data.createdAt,
         });
       });
@@ -170,16 +298,262 @@ export default function HomeClient() {
     });
 
     return () => unsub();
-  }, []);
+  }, [authUser, workspaceId]);
+
+  useEffect(() => {
+    if (!authUser || !workspaceId) return;
+
+    const q = query(
+      collection(db, "vote_results"),
+      where("workspaceId", "==", workspaceId),
+      where("hasPasscode", "==", false),
+      // 見直し用のルームを作成済みのものは除く（先に除かないと limit の枠を使ってしまう）
+      where("reviewRoomId", "==", null),
+      where("decision.reviewDate", ">", ""),
+      orderBy("decision.reviewDate"),
+      limit(100)
+    );
+
+    getDocs(q)
+      .then((snap) => {
+        setPendingReviews(
+          snap.docs
+            .map((d) => parseVoteResult(d.id, d.data()))
+            .filter(isPendingReview)
+        );
+      })
+      .catch((err) => {
+        console.error("Error loading reviews:", err);
+      });
+  }, [authUser, workspaceId]);
+
+  // ワークスペースを作成して選択する
+  const handleCreateWorkspace = async () => {
+    const name = window.prompt(
+      t("workspace.prompt.name", { max: WORKSPACE_CONFIG.NAME_MAX_LENGTH })
+    )?.trim();
+    if (!name) return;
+
+    try {
+      const uid = (await ensureSignedIn()).uid;
+      selectWorkspace(await createWorkspace(name, uid));
+    } catch (err) {
+      console.error("Error creating workspace:", err);
+      setError(t("workspace.error.createFailed"));
+    }
+  };
+
+  // 招待リンクをコピー（開いた人はこのワークスペースのメンバーになる）
+  const handleCopyInvite = async () => {
+    if (!workspace) return;
+    await navigator.clipboard.writeText(
+      buildInviteUrl(window.location.origin, workspace)
+    );
+    setIsInviteCopied(true);
+    setTimeout(() => setIsInviteCopied(false), 1500);
+  };
+
+  // 招待コードを作り直す（作成者のみ。以前の招待リンクは使えなくなる）
+  const handleResetInvite = async () => {
+    if (!workspace || !confirm(t("workspace.confirm.resetInvite"))) return;
+
+    try {
+      await resetInviteCode(workspace.id);
+    } catch (err) {
+      console.error("Error resetting invite code:", err);
+      setError(t("workspace.error.resetInviteFailed"));
+    }
+  };
+
+  // 見直し日が近い（または過ぎた）決定
+  const dueSoonKey = dateKeyAfterDays(REVIEW_CONFIG.DUE_SOON_DAYS);
+  const todayKey = toDateKey(new Date());
+  const dueReviews = pendingReviews.filter(
+    (r) => (r.decision?.reviewDate ?? "") <= dueSoonKey
+  );
+
+  // 見直し日を .ics でダウンロード（未見直しのものすべて）
+  const handleDownloadReviews = () => {
+    const ics = buildReviewIcs(pendingReviews, window.location.origin, locale);
+    downloadFile("delegation-reviews.ics", ics, "text/calendar");
+  };
+
+  // 匿名アカウントを Google アカウントに紐付け（別の端末でも同じ参加者IDになる）
+  const handleLinkAccount = async () => {
+    setIsLinking(true);
+    setError("");
+
+    try {
+      const user = await upgradeToGoogleAccount();
+      if (!userName.trim() && user.displayName) {
+        setUserName(user.displayName.slice(0, 20));
+      }
+    } catch (err) {
+      console.error("[linkAccount] error", err);
+      setError(t("home.error.linkFailed"));
+    } finally {
+      setIsLinking(false);
+    }
+  };
+
+  const bulkImport = parseTopicImport(bulkTopicText);
+
+  // 表示する言語にしたデッキと追加カード（カスタムのレベルはそのまま）
+  const shownDeck = localizeDeck(deck, locale);
+  const extraCards = EXTRA_CARDS.map((e) => localizeExtraCard(e, locale));
+
+  // ルームを作成して自分をホスト・参加者として追加し、ルームIDを返す
+  // 指定したルームIDが使用中の場合（自動のIDは作り直しても空かなかった場合）は null
+  const createRoom = async (
+    workspaceId: string,
+    topicTitles: string[],
+    roomDeck: Deck,
+    reviewOf: ReviewSource | null = null,
+    options: {
+      unlisted?: boolean;
+      anonymous?: boolean;
+      passcode?: string;
+      customRoomId?: string;
+      idleTimeoutSec?: number;
+    } = {}
+  ) => {
+    const hostId = (await ensureSignedIn()).uid;
+    // ホスト復帰コード（ハッシュのみ secrets/hostClaim に保存）
+    const claimCode = generateClaimCode();
+    const agenda = topicTitles.map(createAgendaItem);
+    const firstTopic = agenda[0];
+    const passcode = options.passcode?.trim() ?? "";
+
+    const fields = {
+      status: "voting",
+      workspaceId,
+      unlisted: options.unlisted ?? false,
+      anonymous: options.anonymous ?? false,
+      hasPasscode: !!passcode,
+      hostId: hostId,
+      joinedIds: [hostId],
+      hasHostClaim: true,
+      topic: firstTopic.title,
+      agenda,
+      currentTopicId: firstTopic.id,
+      round: 1,
+      deck: roomDeck,
+      reviewOf,
+      idleTimeoutSec:
+        options.idleTimeoutSec ?? ROOM_EXPIRY_CONFIG.IDLE_TIMEOUT_SEC,
+      lastActivityAt: serverTimestamp(),
+      createdAt: serverTimestamp(),
+    };
+    const hashes = {
+      hostClaim: await hashClaimCode(claimCode),
+      passcode: passcode ? await hashClaimCode(passcode) : null,
+    };
+
+    // ルームを作成（指定したIDは1回だけ、自動のIDは使用中なら作り直す）
+    const candidates = options.customRoomId
+      ? [options.customRoomId]
+      : Array.from({ length: ROOM_ID_CONFIG.MAX_ATTEMPTS }, () =>
+          generateRoomId()
+        );
+    // トランザクションは途中で打ち切れないため時間制限を設けない
+    // （打ち切って次のIDを試すと、前のIDのルームも作成されることがある）
+    let newRoomId: string | null = null;
+    for (const candidate of candidates) {
+      if (await createRoomIfAbsent(candidate, fields, hashes)) {
+        newRoomId = candidate;
+        break;
+      }
+    }
+    if (!newRoomId) return null;
+
+    // 復帰コードを保存
+    setClaimCode(newRoomId, claimCode);
+
+    // 参加者として追加
+    await setDoc(doc(db, "rooms", newRoomId, "participants", hostId), {
+      name: userName,
+      selectedCard: null,
+      role,
+      online: true,
+      lastSeenAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+
+    return newRoomId;
+  };
+
+  // デッキのレベルの名称・説明を変更（プリセットから変えたものはカスタムとして保存）
+  const handleEditDeckLevel = (
+    level: number,
+    field: "title" | "description",
+    value: string
+  ) => {
+    setDeck({
+      ...shownDeck,
+      id: "custom",
+      name: t("deck.custom"),
+      levels: shownDeck.levels.map((l) =>
+        l.level === level ? { ...l, [field]: value } : l
+      ),
+    });
+  };
+
+  const handleToggleExtraCard = (id: string) => {
+    const enabled = deck.extras.some((e) => e.id === id);
+    setDeck({
+      ...shownDeck,
+      id: "custom",
+      name: t("deck.custom"),
+      extras: extraCards.filter((e) =>
+        e.id === id ? !enabled : deck.extras.some((x) => x.id === e.id)
+      ),
+    });
+  };
 
   const handleCreateRoom = async () => {
+    if (!workspaceId) {
+      setError(t("workspace.error.required"));
+      return;
+    }
     if (!userName.trim()) {
-      setError("名前を入力してください");
+      setError(t("home.error.nameRequired"));
       return;
     }
 
-    if (!topic.trim()) {
-      setError("デリゲーションテーマを入力してください");
+    const topicTitles = isBulkTopics ? bulkImport.topics : [topic.trim()];
+    if (!topicTitles[0]) {
+      setError(
+        isBulkTopics
+          ? t("home.error.topicsRequired")
+          : t("home.error.topicRequired")
+      );
+      return;
+    }
+
+    if (shownDeck.levels.some((l) => !l.title.trim())) {
+      setError(t("home.error.cardTitleRequired"));
+      return;
+    }
+
+    const trimmedPasscode = passcode.trim();
+    if (
+      trimmedPasscode &&
+      trimmedPasscode.length < PASSCODE_CONFIG.MIN_LENGTH
+    ) {
+      setError(
+        t("home.error.passcodeTooShort", { min: PASSCODE_CONFIG.MIN_LENGTH })
+      );
+      return;
+    }
+
+    const customRoomId = normalizeRoomId(customRoomIdInput);
+    if (customRoomId && !isValidCustomRoomId(customRoomId)) {
+      setError(
+        t("home.error.roomIdInvalid", {
+          min: ROOM_ID_CONFIG.CUSTOM_MIN_LENGTH,
+          max: ROOM_ID_CONFIG.CUSTOM_MAX_LENGTH,
+        })
+      );
       return;
     }
 
@@ -187,51 +561,86 @@ export default function HomeClient() {
     setError("");
 
     try {
-      const newRoomId = generateRoomId();
-      const hostId = getOrCreateParticipantId();
-
-      // ルームを作成
-      await withTimeout(
-        setDoc(doc(db, "rooms", newRoomId), {
-          status: "voting",
-          hostId: hostId,
-          topic: topic.trim(),
-          createdAt: serverTimestamp(),
-        }),
-        15000,
-        "setDoc rooms"
+      // 作成時に表示していた言語の名称でルームに保存する
+      const newRoomId = await createRoom(
+        workspaceId,
+        topicTitles,
+        shownDeck,
+        null,
+        {
+          unlisted: isUnlisted,
+          anonymous: isAnonymous,
+          passcode,
+          customRoomId,
+          idleTimeoutSec,
+        }
       );
-
-      // ホストIDを保存
-      setHostId(newRoomId, hostId);
-
-      // 参加者として追加
-      await setDoc(doc(db, "rooms", newRoomId, "participants", hostId), {
-        name: userName,
-        selectedCard: null,
-        online: true,
-        lastSeenAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      });
+      if (!newRoomId) {
+        setError(
+          customRoomId
+            ? t("home.error.roomIdTaken", { roomId: customRoomId })
+            : t("home.error.createFailed")
+        );
+        return;
+      }
 
       // 遷移
       // router.push(`/room/${newRoomId}?name=${encodeURIComponent(userName)}`);
       router.push(withName(`/room/${newRoomId}`, userName));
     } catch (err) {
       console.error("[createRoom] error", err);
-      setError("ルームの作成に失敗しました");
+      setError(t("home.error.createFailed"));
     } finally {
       setIsCreating(false);
     }
   };
 
+  // 過去の決定を新しいルームで見直す（前回の結果を比較用に引き継ぐ）
+  const handleReopenReview = async (result: VoteResultEntry) => {
+    const reviewOf = toReviewSource(result);
+    if (!reviewOf || !workspaceId) return;
+    if (!userName.trim()) {
+      setError(t("home.error.nameRequired"));
+      return;
+    }
+
+    setReopeningId(result.id);
+    setError("");
+
+    try {
+      // 前回と同じデッキで見直す
+      const newRoomId = await createRoom(
+        workspaceId,
+        [result.topic],
+        getDeck(result),
+        reviewOf
+      );
+      if (!newRoomId) {
+        setError(t("home.error.reopenFailed"));
+        return;
+      }
+
+      // 見直し予定から外す
+      await updateDoc(doc(db, "vote_results", result.id), {
+        reviewRoomId: newRoomId,
+      });
+
+      router.push(withName(`/room/${newRoomId}`, userName));
+    } catch (err) {
+      console.error("Error reopening review:", err);
+      setError(t("home.error.reopenFailed"));
+    } finally {
+      setReopeningId(null);
+    }
+  };
+
   const handleJoinRoom = async () => {
     if (!roomId.trim()) {
-      setError("ルームIDを入力してください");
+      setError(t("home.error.roomIdRequired"));
       return;
     }
     if (!userName.trim()) {
-      setError("名前を入力してください");
+      setError(t("home.error.nameRequired"));
       return;
     }
 
@@ -239,21 +648,37 @@ export default function HomeClient() {
     setError("");
 
     try {
+      await ensureSignedIn();
+
       // ルームが存在するか確認
-      const roomDoc = await getDoc(doc(db, "rooms", roomId.toUpperCase()));
+      const roomDoc = await getDoc(
+        doc(db, "rooms", normalizeRoomId(roomId))
+      );
 
       if (!roomDoc.exists()) {
-        setError("ルームが見つかりませんでした");
+        setError(t("home.error.roomNotFound"));
         setIsJoining(false);
         return;
       }
 
       // ルームページに遷移
-      router.push(withName(`/room/${roomId.toUpperCase()}`, userName));
+      router.push(
+        withQuery(
+          withName(`/room/${normalizeRoomId(roomId)}`, userName),
+          "role",
+          role
+        )
+      );
       // router.push(withName(`/room/${newRoomId}`, userName));
     } catch (err) {
+      // 他のワークスペースのルームは読み取れない（存在しないものとして扱う）
+      if (err instanceof FirebaseError && err.code === "permission-denied") {
+        setError(t("home.error.roomNotFound"));
+        setIsJoining(false);
+        return;
+      }
       console.error("Error joining room:", err);
-      setError("ルームへの参加に失敗しました");
+      setError(t("home.error.joinFailed"));
       setIsJoining(false);
     }
   };
@@ -265,7 +690,7 @@ export default function HomeClient() {
           Delegation Poker
         </h1>
         <p className="text-center text-gray-600 mb-10">
-          意思決定の権限レベルを合意形成しよう
+          {t("home.tagline")}
         </p>
         <button
           type="button"
@@ -283,8 +708,68 @@ export default function HomeClient() {
     active:translate-y-0
   "
         >
-          過去の投票結果を見る
+          {t("home.pastResults")}
         </button>
+        <div className="-mt-3 mb-6 text-center">
+          <button
+            type="button"
+            onClick={() => router.push("/board")}
+            className="text-sm text-gray-500 underline hover:text-gray-700"
+          >
+            {t("home.teamBoard")}
+          </button>
+        </div>
+
+        {/* ワークスペース（ルーム・結果はメンバーだけが見られる） */}
+        <div className="mb-6 rounded-xl border border-gray-300 bg-white p-4 shadow-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-gray-700">
+              {t("workspace.label")}
+            </span>
+            {workspaces && workspaces.length > 0 && (
+              <select
+                value={workspace?.id ?? ""}
+                onChange={(e) => selectWorkspace(e.target.value)}
+                className="h-[36px] min-w-0 flex-1 px-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {workspaces.map((w) => (
+                  <option key={w.id} value={w.id}>
+                    {w.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              type="button"
+              onClick={handleCreateWorkspace}
+              disabled={!authUser}
+              className="rounded-lg border border-gray-300 px-3 h-[36px] text-sm text-gray-700 hover:bg-gray-50 transition disabled:opacity-50"
+            >
+              {t("workspace.create")}
+            </button>
+            {workspace && (
+              <button
+                type="button"
+                onClick={handleCopyInvite}
+                className="rounded-lg border border-gray-300 px-3 h-[36px] text-sm text-gray-700 hover:bg-gray-50 transition"
+              >
+                {isInviteCopied ? t("workspace.copied") : t("workspace.copyInvite")}
+              </button>
+            )}
+            {workspace && workspace.ownerId === authUser?.uid && (
+              <button
+                type="button"
+                onClick={handleResetInvite}
+                className="rounded-lg border border-gray-300 px-3 h-[36px] text-sm text-gray-700 hover:bg-gray-50 transition"
+              >
+                {t("workspace.resetInvite")}
+              </button>
+            )}
+          </div>
+          {workspaces?.length === 0 && (
+            <p className="mt-2 text-xs text-gray-500">{t("workspace.none")}</p>
+          )}
+        </div>
 
         {error && (
           <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
@@ -292,6 +777,65 @@ export default function HomeClient() {
           </div>
         )}
 
+        {/* 見直し予定の決定 */}
+        {dueReviews.length > 0 && (
+          <div className="mb-6 rounded-xl border border-emerald-300 bg-white p-4 shadow-sm">
+            <div className="mb-2 flex items-center justify-between gap-2">
+              <h2 className="font-semibold text-gray-800">
+                {t("home.reviewsTitle")}
+              </h2>
+              <button
+                type="button"
+                onClick={handleDownloadReviews}
+                className="text-xs text-emerald-700 underline hover:text-emerald-900"
+              >
+                {t("home.reviewsIcs")}
+              </button>
+            </div>
+            <ul className="divide-y">
+              {dueReviews.map((r) => {
+                const reviewDate = r.decision?.reviewDate ?? "";
+                const isOverdue = reviewDate < todayKey;
+
+                return (
+                  <li
+                    key={r.id}
+                    className="flex items-center justify-between gap-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900 break-words">
+                        {r.topic?.trim() ? r.topic : t("common.untitledTopic")}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {t("common.level", { level: r.decision?.level ?? "" })}
+                        {r.decision?.owner &&
+                          t("home.ownerInline", { owner: r.decision.owner })}
+                        {" ・ "}
+                        <span
+                          className={
+                            isOverdue ? "font-semibold text-red-600" : ""
+                          }
+                        >
+                          {t("home.reviewDue", { date: reviewDate })}
+                          {isOverdue && t("home.overdue")}
+                        </span>
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleReopenReview(r)}
+                      disabled={reopeningId != null}
+                      className="shrink-0 rounded-lg bg-emerald-600 px-3 h-[36px] text-sm font-semibold text-white hover:bg-emerald-700 transition disabled:opacity-50"
+                    >
+                      {reopeningId === r.id ? t("home.creating") : t("home.reopen")}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
         <div className="bg-white border border-gray-300 rounded-xl p-6 shadow-md">
           {/* 3カード構成 */}
           <div className="space-y-8">
@@ -300,21 +844,67 @@ export default function HomeClient() {
             <div className="bg-white border border-gray-300 rounded-xl p-6 shadow-md">
               {" "}
               <h2 className="text-center text-base font-medium tracking-wide text-gray-800 mb-4">
-                基本情報
+                {t("home.basicInfo")}
               </h2>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  あなたの名前
+                  {t("home.yourName")}
                 </label>
                 <input
                   type="text"
                   value={userName}
                   onChange={(e) => setUserName(e.target.value)}
-                  placeholder="名前を入力"
+                  placeholder={t("home.namePlaceholder")}
                   className="w-full h-14 px-4 border border-gray-400 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   maxLength={20}
                 />
               </div>
+              <div className="mt-4 flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600">
+                <span>
+                  {!authUser
+                    ? t("home.signingIn")
+                    : authUser.isAnonymous
+                    ? t("home.anonymous")
+                    : t("home.signedInAs", {
+                        name: authUser.displayName ?? authUser.email ?? "",
+                      })}
+                </span>
+                {authUser?.isAnonymous && (
+                  <button
+                    type="button"
+                    onClick={handleLinkAccount}
+                    disabled={isLinking}
+                    className="rounded-lg border border-gray-300 bg-white px-3 h-[36px] text-gray-700 hover:bg-gray-50 transition disabled:opacity-60"
+                  >
+                    {isLinking ? t("home.linking") : t("home.linkGoogle")}
+                  </button>
+                )}
+              </div>
+              <div className="mt-4">
+                <span className="block text-sm font-medium text-gray-700 mb-2">
+                  {t("home.joinAs")}
+                </span>
+                <div className="flex gap-6 text-sm text-gray-700">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name="role"
+                      checked={role === "voter"}
+                      onChange={() => setRole("voter")}
+                    />
+                    {t("home.roleVoter")}
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name="role"
+                      checked={role === "observer"}
+                      onChange={() => setRole("observer")}
+                    />
+                    {t("home.roleObserver")}
+                  </label>
+                </div>
+              </div>
             </div>
 
             {/* ② 下段：作成/参加カード（2枚） */}
@@ -322,18 +912,179 @@ export default function HomeClient() {
               {/* ②-1 作成カード */}
               <div className="bg-white border border-gray-300 rounded-xl p-6 shadow-md">
                 <h2 className="text-center text-base font-medium tracking-wide text-gray-800 mb-6">
-                  新しいルームを作成
+                  {t("home.createTitle")}
                 </h2>
 
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  デリゲーションテーマ
-                </label>
-                <input
-                  value={topic}
-                  onChange={(e) => setTopic(e.target.value)}
-                  placeholder="〇〇の権限委譲について"
-                  className="w-full h-14 px-4 border border-gray-400 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                />
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    {isBulkTopics ? t("home.bulkTopics") : t("home.topic")}
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setIsBulkTopics(!isBulkTopics)}
+                    className="text-xs text-gray-500 underline hover:text-gray-700"
+                  >
+                    {isBulkTopics ? t("home.singleTopic") : t("home.bulkToggle")}
+                  </button>
+                </div>
+                {isBulkTopics ? (
+                  <>
+                    <textarea
+                      value={bulkTopicText}
+                      onChange={(e) => setBulkTopicText(e.target.value)}
+                      placeholder={t("import.placeholderExample")}
+                      rows={5}
+                      className="w-full px-4 py-3 border border-gray-400 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <TopicImportPreview result={bulkImport} />
+                  </>
+                ) : (
+                  <input
+                    value={topic}
+                    onChange={(e) => setTopic(e.target.value)}
+                    placeholder={t("home.topicPlaceholder")}
+                    className="w-full h-14 px-4 border border-gray-400 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                )}
+
+                {/* カードのセット */}
+                <div className="mt-6 flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    {t("home.cards")}
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setIsEditingDeck(!isEditingDeck)}
+                    className="text-xs text-gray-500 underline hover:text-gray-700"
+                  >
+                    {isEditingDeck ? t("common.close") : t("home.editDeck")}
+                  </button>
+                </div>
+                <select
+                  value={shownDeck.id}
+                  onChange={(e) =>
+                    setDeck(
+                      DECK_PRESETS.find((d) => d.id === e.target.value) ??
+                        DEFAULT_DECK
+                    )
+                  }
+                  className="w-full h-12 px-4 border border-gray-400 rounded-lg bg-white"
+                >
+                  {DECK_PRESETS.map((d) => (
+                    <option key={d.id} value={d.id}>
+                      {localizeDeck(d, locale).name}
+                    </option>
+                  ))}
+                  {deck.id === "custom" && (
+                    <option value="custom">{t("deck.custom")}</option>
+                  )}
+                </select>
+
+                {isEditingDeck && (
+                  <div className="mt-3 space-y-2 rounded-lg border border-gray-200 bg-gray-50 p-3">
+                    {shownDeck.levels.map((l) => (
+                      <div key={l.level} className="flex items-center gap-2">
+                        <span className="w-5 text-center text-sm font-semibold text-red-500">
+                          {l.level}
+                        </span>
+                        <input
+                          value={l.title}
+                          onChange={(e) =>
+                            handleEditDeckLevel(l.level, "title", e.target.value)
+                          }
+                          maxLength={DECK_CONFIG.TITLE_MAX_LENGTH}
+                          className="w-20 h-9 px-2 border border-gray-300 rounded text-sm"
+                          aria-label={t("home.levelTitle", { level: l.level })}
+                        />
+                        <input
+                          value={l.description}
+                          onChange={(e) =>
+                            handleEditDeckLevel(
+                              l.level,
+                              "description",
+                              e.target.value
+                            )
+                          }
+                          maxLength={DECK_CONFIG.DESCRIPTION_MAX_LENGTH}
+                          className="flex-1 min-w-0 h-9 px-2 border border-gray-300 rounded text-sm"
+                          aria-label={t("home.levelDescription", { level: l.level })}
+                        />
+                      </div>
+                    ))}
+                    <div className="flex flex-wrap gap-4 pt-1 text-sm text-gray-700">
+                      {extraCards.map((extra) => (
+                        <label key={extra.id} className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={deck.extras.some((e) => e.id === extra.id)}
+                            onChange={() => handleToggleExtraCard(extra.id)}
+                          />
+                          {t("home.extraCard", { label: extra.label })}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* ルームID（任意）と公開範囲 */}
+                <div className="mt-6 space-y-2">
+                  <input
+                    value={customRoomIdInput}
+                    onChange={(e) =>
+                      setCustomRoomIdInput(e.target.value.toUpperCase())
+                    }
+                    placeholder={t("home.customRoomIdPlaceholder")}
+                    maxLength={ROOM_ID_CONFIG.CUSTOM_MAX_LENGTH}
+                    className="w-full h-12 px-4 border border-gray-400 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={isUnlisted}
+                      onChange={(e) => setIsUnlisted(e.target.checked)}
+                    />
+                    {t("home.unlisted")}
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={isAnonymous}
+                      onChange={(e) => setIsAnonymous(e.target.checked)}
+                    />
+                    {t("home.anonymousResults")}
+                  </label>
+                  <input
+                    type="password"
+                    value={passcode}
+                    onChange={(e) => setPasscode(e.target.value)}
+                    placeholder={t("home.passcodePlaceholder")}
+                    maxLength={PASSCODE_CONFIG.MAX_LENGTH}
+                    autoComplete="new-password"
+                    className="w-full h-12 px-4 border border-gray-400 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-xs text-gray-500">
+                    {t("home.passcodeHint", {
+                      min: PASSCODE_CONFIG.MIN_LENGTH,
+                      attempts: PASSCODE_CONFIG.MAX_ATTEMPTS,
+                    })}
+                  </p>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    {t("home.idleTimeout")}
+                    <select
+                      value={idleTimeoutSec}
+                      onChange={(e) => setIdleTimeoutSec(Number(e.target.value))}
+                      className="h-10 px-2 border border-gray-400 rounded-lg text-sm"
+                    >
+                      {ROOM_EXPIRY_CONFIG.IDLE_TIMEOUT_OPTIONS_SEC.map((sec) => (
+                        <option key={sec} value={sec}>
+                          {sec % 86400 === 0
+                            ? t("home.idleTimeoutDays", { count: sec / 86400 })
+                            : t("home.idleTimeoutHours", { count: sec / 3600 })}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
 
                 <button
                   onClick={handleCreateRoom}
@@ -351,18 +1102,18 @@ export default function HomeClient() {
     disabled:opacity-60 disabled:cursor-not-allowed
   "
                 >
-                  {isCreating ? "作成中..." : "ルームを作成"}
+                  {isCreating ? t("home.creating") : t("home.createRoom")}
                 </button>
               </div>
 
               {/* ②-2 参加カード */}
               <div className="bg-white border border-gray-300 rounded-xl p-6 shadow-md">
                 <h2 className="text-center text-base font-medium tracking-wide text-gray-800 mb-6">
-                  既存のルームに参加
+                  {t("home.joinTitle")}
                 </h2>
 
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  ルームID
+                  {t("common.roomId")}
                 </label>
                 <div className="relative">
                   <select
@@ -378,11 +1129,15 @@ export default function HomeClient() {
                     `}
                   >
                     {/* 先頭を空の選択肢 */}
-                    <option value="">（選択してください）</option>
+                    <option value="">{t("home.selectRoom")}</option>
 
                     {roomOptions.map((r) => (
                       <option key={r.id} value={r.id}>
-                        {r.id} - {r.topic}
+                        {r.id} - {r.topic || t("common.unset")}
+                        {r.closesInMs != null &&
+                          t("home.closesIn", {
+                            count: Math.ceil(r.closesInMs / (60 * 60 * 1000)),
+                          })}
                       </option>
                     ))}
                   </select>
@@ -420,7 +1175,7 @@ export default function HomeClient() {
     disabled:opacity-60 disabled:cursor-not-allowed
   "
                 >
-                  {isJoining ? "参加中..." : "ルームに参加"}
+                  {isJoining ? t("home.joining") : t("home.joinRoom")}
                 </button>
               </div>
             </div>
@@ -438,81 +1193,30 @@ export default function HomeClient() {
           >
             <div className="flex items-center justify-between border-b px-5 py-4">
               <h2 className="text-base font-medium tracking-wide text-gray-800">
-                投票結果
+                {t("home.resultsTitle")}
               </h2>
+              <button
+                className="ml-auto mr-2 rounded-md px-2 py-1 text-sm text-gray-600 underline hover:bg-gray-100"
+                onClick={() => router.push("/results")}
+              >
+                {t("home.searchAllResults")}
+              </button>
               <button
                 className="rounded-md px-2 py-1 text-sm text-gray-600 hover:bg-gray-100"
                 onClick={() => setIsResultsOpen(false)}
               >
-                閉じる
+                {t("common.close")}
               </button>
             </div>
 
             <div className="max-h-[70vh] overflow-y-auto px-5 py-4">
               {results.length === 0 ? (
-                <p className="text-gray-500">結果がまだありません。</p>
+                <p className="text-gray-500">{t("home.noResults")}</p>
               ) : (
                 <div className="space-y-3">
                   {results.map((r) => (
                     <div key={r.id}>
-                      <div className="rounded-lg border bg-white p-4">
-                        {/* 上段：テーマ（左）＋順位（右） */}
-                        <div className="flex items-start justify-between gap-4">
-                          <div className="min-w-0">
-                            {/* テーマ（赤枠） */}
-                            <div className="mt-2 text-base font-semibold text-gray-900 break-words">
-                              {r.topic?.trim() ? r.topic : "（テーマ未設定）"}
-                            </div>
-                          </div>
-
-                          {/* 順位（右寄せ） */}
-                          <div className="flex shrink-0 items-center gap-2">
-                            {r.first != null && (
-                              <div className="flex items-center gap-1 rounded-md bg-gray-50 px-2 py-1">
-                                <span className="text-yellow-400 text-xl">
-                                  👑
-                                </span>
-                                <span className="font-semibold text-red-700">
-                                  {r.first}
-                                </span>
-                              </div>
-                            )}
-                            {r.second != null && (
-                              <div className="flex items-center gap-1 rounded-md bg-gray-50 px-2 py-1">
-                                <span className="text-gray-400 text-lg">
-                                  🥈
-                                </span>
-                                <span className="font-semibold text-red-700">
-                                  {r.second}
-                                </span>
-                              </div>
-                            )}
-                            {r.third != null && (
-                              <div className="flex items-center gap-1 rounded-md bg-gray-50 px-2 py-1">
-                                <span className="text-amber-700 text-lg">
-                                  🥉
-                                </span>
-                                <span className="font-semibold text-red-700">
-                                  {r.third}
-                                </span>
-                              </div>
-                            )}
-                          </div>
-                        </div>
-
-                        {/* 下段：ルームID（青枠）＋日付（右） */}
-                        <div className="mt-2 flex items-center justify-between">
-                          {/* ルームID（青枠） */}
-                          <div className="text-xs text-gray-500">
-                            {r.roomId}
-                          </div>
-
-                          {/* 日付（右、同じ高さ） */}
-                          <div className="text-xs text-gray-500">
-                            {formatDate(r.votedAt)}
-                          </div>
-                        </div>
-                      </div>
+                      <ResultCard result={r} />
                     </div>
                   ))}
                 </div>
@@ -0,0 +1,66 @@
+"use client";
+
+import { createContext, useCallback, useContext, useState } from "react";
+import type { Timestamp } from "firebase/firestore";
+import {
+  LOCALE_COOKIE,
+  translate,
+  type Locale,
+  type MessageKey,
+} from "../src/lib/i18n";
+import { formatDate } from "../src/lib/utils";
+
+// 選んだ言語を保存する期間（秒）
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+const I18nContext = createContext<{
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+} | null>(null);
+
+// 表示する言語（初期値はサーバーで Cookie・Accept-Language から決める）
+export function I18nProvider({
+  initialLocale,
+  children,
+}: {
+  initialLocale: Locale;
+  children: React.ReactNode;
+}) {
+  const [locale, setLocaleState] = useState<Locale>(initialLocale);
+
+  // 次回以降も同じ言語で表示するため Cookie に保存する
+  const setLocale = useCallback((next: Locale) => {
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+    document.documentElement.lang = next;
+    setLocaleState(next);
+  }, []);
+
+  return (
+    <I18nContext.Provider value={{ locale, setLocale }}>
+      {children}
+    </I18nContext.Provider>
+  );
+}
+
+/**
+ * 表示する言語と翻訳（t）・日時の表示（formatDate）
+ */
+export function useI18n() {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error("useI18n must be used within I18nProvider");
+  }
+  const { locale, setLocale } = context;
+
+  const t = useCallback(
+    (key: MessageKey, params?: Record<string, string | number>) =>
+      translate(locale, key, params),
+    [locale]
+  );
+  const formatLocalDate = useCallback(
+    (ts: Timestamp | null | undefined) => formatDate(ts, locale),
+    [locale]
+  );
+
+  return { locale, setLocale, t, formatDate: formatLocalDate };
+}
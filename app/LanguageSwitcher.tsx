@@ -0,0 +1,24 @@
+"use client";
+
+import { LOCALES, LOCALE_NAMES, type Locale } from "../src/lib/i18n";
+import { useI18n } from "./I18nProvider";
+
+// 表示言語の切り替え（選んだ言語は次回以降も使う）
+export default function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+      aria-label={t("common.language")}
+      className="h-[36px] rounded-lg border border-slate-300 bg-white px-2 text-sm text-slate-600 shadow-sm"
+    >
+      {LOCALES.map((l) => (
+        <option key={l} value={l}>
+          {LOCALE_NAMES[l]}
+        </option>
+      ))}
+    </select>
+  );
+}
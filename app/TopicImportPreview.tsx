@@ -0,0 +1,68 @@
+"use client";
+
+import { AGENDA_CONFIG, type TopicImport } from "../src/lib/agenda";
+import { useI18n } from "./I18nProvider";
+
+// 議題の一括入力のプレビュー（追加される議題と、除外した行）
+export default function TopicImportPreview({
+  result,
+}: {
+  result: TopicImport;
+}) {
+  const { t } = useI18n();
+  const hasInput =
+    result.topics.length +
+      result.duplicates.length +
+      result.tooLong.length +
+      result.skipped.length >
+    0;
+  if (!hasInput) return null;
+
+  return (
+    <div className="mt-2 rounded-lg border border-gray-200 bg-gray-50 p-3 text-sm">
+      <div className="mb-1 text-xs text-gray-500">
+        {t("import.summary", {
+          format: t(`import.format.${result.format}`),
+          count: result.topics.length,
+        })}
+      </div>
+      <ol className="max-h-40 list-decimal overflow-y-auto pl-5 text-gray-800">
+        {result.topics.map((title, i) => (
+          <li key={`${i}-${title}`} className="break-words">
+            {title}
+          </li>
+        ))}
+      </ol>
+      {result.duplicates.length > 0 && (
+        <div className="mt-2 text-xs text-orange-600">
+          {t("import.duplicates", {
+            titles: result.duplicates.join(t("common.enumSeparator")),
+          })}
+        </div>
+      )}
+      {result.tooLong.length > 0 && (
+        <div className="mt-1 text-xs text-red-600 break-words">
+          {t("import.tooLong", {
+            max: AGENDA_CONFIG.TOPIC_MAX_LENGTH,
+            titles: result.tooLong.join(t("common.enumSeparator")),
+          })}
+        </div>
+      )}
+      {result.truncated.length > 0 && (
+        <div className="mt-1 text-xs text-orange-600 break-words">
+          {t("import.truncated", {
+            count: result.truncated.length,
+            lines: result.truncated.join(t("common.enumSeparator")),
+          })}
+        </div>
+      )}
+      {result.skipped.length > 0 && (
+        <div className="mt-1 text-xs text-orange-600 break-words">
+          {t("import.skipped", {
+            lines: result.skipped.join(t("common.enumSeparator")),
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { Check } from "lucide-react";
+import type { BoardRow } from "../../src/lib/board";
+import type { DeckLevel } from "../../src/lib/deck";
+import { useI18n } from "../I18nProvider";
+
+// デリゲーションボード（議題 × 権限レベル）
+// 列はデッキのレベル。onSelectLevel を渡すとセルをクリックして合意レベルを確定できる
+export default function DelegationBoardTable({
+  rows,
+  levels,
+  showRoomId = false,
+  onSelectLevel,
+}: {
+  rows: BoardRow[];
+  levels: DeckLevel[];
+  showRoomId?: boolean;
+  onSelectLevel?: (row: BoardRow, level: number) => void;
+}) {
+  const { t } = useI18n();
+
+  if (rows.length === 0) {
+    return (
+      <p className="py-8 text-center text-slate-400">{t("board.noTopics")}</p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse text-sm">
+        <thead>
+          <tr>
+            <th className="border border-slate-300 bg-slate-100 px-3 py-2 text-left font-semibold text-slate-700">
+              {t("board.topic")}
+            </th>
+            {levels.map((meta) => (
+              <th
+                key={meta.level}
+                className="w-[9%] border border-slate-300 bg-slate-100 px-2 py-2 text-center font-semibold text-slate-700"
+                title={meta.description}
+              >
+                <div>{meta.level}</div>
+                <div className="text-xs font-medium text-red-500">
+                  {meta.title}
+                </div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            const topValues = row.rankings.find((g) => g.rank === 1)?.values;
+
+            return (
+              <tr key={`${row.roomId}-${row.topicId}`}>
+                <td className="border border-slate-300 px-3 py-2 text-slate-900">
+                  <div className="font-medium break-words">
+                    {row.title || t("common.untitledTopic")}
+                  </div>
+                  {(showRoomId || row.round != null) && (
+                    <div className="text-xs text-slate-500">
+                      {showRoomId && row.roomId}
+                      {showRoomId && row.round != null && " ・ "}
+                      {row.round != null &&
+                        t("common.roundVote", { round: row.round })}
+                    </div>
+                  )}
+                </td>
+                {levels.map(({ level: v }) => {
+                  const count = row.counts?.[v] ?? 0;
+                  const isAgreed = row.agreedLevel === v;
+                  const isTop = !!topValues?.includes(v);
+
+                  return (
+                    <td
+                      key={v}
+                      onClick={() => onSelectLevel?.(row, v)}
+                      className={`border border-slate-300 px-2 py-2 text-center ${
+                        isAgreed
+                          ? "bg-emerald-100"
+                          : isTop
+                          ? "bg-yellow-50"
+                          : ""
+                      } ${
+                        onSelectLevel
+                          ? "cursor-pointer hover:bg-slate-100 print:cursor-auto"
+                          : ""
+                      }`}
+                      title={
+                        onSelectLevel ? t("board.clickToDecide") : undefined
+                      }
+                    >
+                      {isAgreed && (
+                        <Check
+                          size={20}
+                          className="mx-auto text-emerald-600"
+                          aria-label={t("board.agreedLevel")}
+                        />
+                      )}
+                      {count > 0 && (
+                        <div
+                          className={`text-xs ${
+                            isTop
+                              ? "font-semibold text-red-600"
+                              : "text-slate-500"
+                          }`}
+                        >
+                          {t("common.voteCount", { count })}
+                        </div>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
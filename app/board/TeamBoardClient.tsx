@@ -0,0 +1,216 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  type FirestoreError,
+} from "firebase/firestore";
+import { db } from "../../src/lib/firebase";
+import { useAuthUser } from "../../src/lib/auth";
+import { getAgenda, type AgendaItem } from "../../src/lib/agenda";
+import {
+  DEFAULT_DECK,
+  getDeck,
+  localizeDeck,
+  mergeDeckLevels,
+  type Deck,
+} from "../../src/lib/deck";
+import {
+  boardToCsvRows,
+  buildBoardRows,
+  type BoardRow,
+} from "../../src/lib/board";
+import { downloadFile, toCsv } from "../../src/lib/export";
+import { parseVoteResult } from "../../src/lib/votes";
+import DelegationBoardTable from "./DelegationBoardTable";
+import { useI18n } from "../I18nProvider";
+
+// チームのデリゲーションボード（複数ルームの議題をまとめて表示）
+// 対象のルームは ?rooms=ABC123,DEF456 で指定する
+export default function TeamBoardClient() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const roomsParam = searchParams.get("rooms") ?? "";
+  const roomIds = Array.from(
+    new Set(
+      roomsParam
+        .split(",")
+        .map((id) => id.trim().toUpperCase())
+        .filter(Boolean)
+    )
+  );
+  const roomKey = roomIds.join(",");
+
+  const { locale, t } = useI18n();
+  const authUser = useAuthUser();
+  const [roomInput, setRoomInput] = useState(roomKey);
+  const [rows, setRows] = useState<BoardRow[]>([]);
+  // 表示するルームのデッキ（列はデッキのレベルをまとめたもの）
+  const [decks, setDecks] = useState<Deck[]>([DEFAULT_DECK]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!authUser || !roomKey) return;
+
+    const ids = roomKey.split(",");
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        // 参加していないワークスペースのルームは読み取れないため表示しない
+        const rooms = await Promise.all(
+          ids.map(async (id) => {
+            const snap = await getDoc(doc(db, "rooms", id)).catch(() => null);
+            return snap?.exists()
+              ? {
+                  id,
+                  data: snap.data() as {
+                    workspaceId?: string;
+                    agenda?: AgendaItem[];
+                    topic?: string;
+                    deck?: Deck;
+                    hasPasscode?: boolean;
+                  },
+                }
+              : null;
+          })
+        );
+
+        // 結果はルームごとに読み込む
+        // パスコードのあるルームの結果は参加者とホスト・共同ホストしか読めないため、読めなければ空にする
+        const resultSnaps = await Promise.all(
+          rooms.map((room) =>
+            room
+              ? getDocs(
+                  query(
+                    collection(db, "vote_results"),
+                    where("workspaceId", "==", room.data.workspaceId ?? null),
+                    where("roomId", "==", room.id)
+                  )
+                ).catch((err) => {
+                  if (
+                    room.data.hasPasscode &&
+                    (err as FirestoreError).code === "permission-denied"
+                  )
+                    return null;
+                  throw err;
+                })
+              : null
+          )
+        );
+        const results = resultSnaps.flatMap((snap) =>
+          snap ? snap.docs.map((d) => parseVoteResult(d.id, d.data())) : []
+        );
+
+        setRows(
+          rooms.flatMap((room) =>
+            room ? buildBoardRows(room.id, getAgenda(room.data), results) : []
+          )
+        );
+        setDecks(rooms.flatMap((room) => (room ? [getDeck(room.data)] : [])));
+      } catch (err) {
+        console.error("Error loading team board:", err);
+        alert(t("board.loadFailed"));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [authUser, roomKey, t]);
+
+  // 列（ルームごとにデッキが違う場合はレベルをまとめる）
+  const levels = mergeDeckLevels(decks.map((d) => localizeDeck(d, locale)));
+
+  const handleApplyRooms = () => {
+    const ids = roomInput
+      .split(/[\s,、]+/)
+      .map((id) => id.trim().toUpperCase())
+      .filter(Boolean);
+    router.replace(ids.length ? `/board?rooms=${ids.join(",")}` : "/board");
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(
+      "delegation-board.csv",
+      toCsv(boardToCsvRows(rows, levels)),
+      "text/csv"
+    );
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-100 to-slate-200 px-6 md:px-8 pt-12 pb-10 print:bg-white print:p-0">
+      <div className="max-w-5xl mx-auto mb-6 flex flex-wrap items-center justify-between gap-2 print:hidden">
+        <button
+          onClick={() => router.push("/")}
+          className="inline-flex items-center gap-2 rounded-xl border border-slate-300 bg-white px-4 h-[44px] text-sm font-medium text-slate-600 hover:bg-slate-50 hover:text-slate-800 transition"
+        >
+          {t("common.backHome")}
+        </button>
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleExportCsv}
+            disabled={rows.length === 0}
+            className="rounded-xl border border-slate-300 bg-white px-4 h-[44px] text-sm font-medium text-slate-600 hover:bg-slate-50 transition disabled:opacity-50"
+          >
+            {t("common.saveCsv")}
+          </button>
+          <button
+            onClick={() => window.print()}
+            className="rounded-xl border border-slate-300 bg-white px-4 h-[44px] text-sm font-medium text-slate-600 hover:bg-slate-50 transition"
+          >
+            {t("common.print")}
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto rounded-xl border border-slate-300 bg-white p-6 shadow-sm print:border-0 print:shadow-none">
+        <h1 className="mb-6 text-2xl font-bold text-slate-900 text-center">
+          {t("board.teamTitle")}
+        </h1>
+
+        <div className="mb-6 flex gap-2 print:hidden">
+          <input
+            value={roomInput}
+            onChange={(e) => setRoomInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.nativeEvent.isComposing)
+                handleApplyRooms();
+            }}
+            placeholder={t("board.roomIdsPlaceholder")}
+            className="flex-1 h-[44px] px-3 border border-slate-300 rounded-lg"
+          />
+          <button
+            onClick={handleApplyRooms}
+            className="rounded-lg border border-slate-300 bg-white px-4 h-[44px] text-sm text-slate-700 hover:bg-slate-50 transition"
+          >
+            {t("board.show")}
+          </button>
+        </div>
+
+        {!roomKey ? (
+          <p className="py-8 text-center text-slate-400">
+            {t("board.enterRoomIds")}
+          </p>
+        ) : isLoading ? (
+          <p className="py-8 text-center text-slate-400">
+            {t("common.loading")}
+          </p>
+        ) : (
+          <DelegationBoardTable rows={rows} levels={levels} showRoomId />
+        )}
+
+        <p className="mt-4 text-xs text-slate-500">
+          {t("board.legend")}
+          {t("board.teamHint")}
+        </p>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,13 @@
+// app/board/page.tsx
+import { Suspense } from "react";
+import TeamBoardClient from "./TeamBoardClient";
+
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return (
+    <Suspense fallback={null}>
+      <TeamBoardClient />
+    </Suspense>
+  );
+}
@@ -1,5 +1,9 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { cookies, headers } from "next/headers";
+import { LOCALE_COOKIE, resolveLocale } from "../src/lib/i18n";
+import { I18nProvider } from "./I18nProvider";
+import LanguageSwitcher from "./LanguageSwitcher";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -17,17 +21,29 @@ export const metadata: Metadata = {
   description: "Generated by create next app",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // 保存した言語 → ブラウザの言語の順で決める
+  const locale = resolveLocale(
+    (await cookies()).get(LOCALE_COOKIE)?.value,
+    (await headers()).get("accept-language")
+  );
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <I18nProvider initialLocale={locale}>
+          {children}
+          {/* 言語の切り替え（全ページ共通、印刷時は非表示） */}
+          <div className="fixed bottom-4 right-4 z-40 print:hidden">
+            <LanguageSwitcher />
+          </div>
+        </I18nProvider>
       </body>
     </html>
   );
@@ -0,0 +1,226 @@
+"use client";
+
+import Link from "next/link";
+import {
+  cardLabel,
+  findLevel,
+  getDeck,
+  levelGridStyle,
+  localizeDeck,
+} from "../../src/lib/deck";
+import type { VoteResultEntry } from "../../src/lib/votes";
+import { useI18n } from "../I18nProvider";
+
+export const RankIcon = ({ rank }: { rank: number }) => {
+  if (rank === 1) return <span className="text-yellow-400 text-xl">👑</span>;
+  if (rank === 2) return <span className="text-gray-400 text-lg">🥈</span>;
+  if (rank === 3) return <span className="text-amber-700 text-lg">🥉</span>;
+  return null;
+};
+
+// 1ラウンド分の投票結果（ホームの結果一覧・結果履歴ページで共通）
+export default function ResultCard({ result }: { result: VoteResultEntry }) {
+  const { locale, t, formatDate } = useI18n();
+  const deck = localizeDeck(getDeck(result), locale);
+  const extraCards = deck.extras.filter(
+    (e) => (result.extraCounts?.[e.id] ?? 0) > 0
+  );
+
+  return (
+    <div className="rounded-lg border bg-white p-4">
+      {/* 上段：テーマ（左）＋順位（右） */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          {/* テーマ（赤枠） */}
+          <div className="mt-2 text-base font-semibold text-gray-900 break-words">
+            {result.topic?.trim() ? result.topic : t("common.untitledTopic")}
+          </div>
+        </div>
+
+        {/* 順位（右寄せ） */}
+        <div className="flex shrink-0 items-center gap-2">
+          {result.rankings.map((g) => (
+            <div
+              key={g.rank}
+              className="flex items-center gap-1 rounded-md bg-gray-50 px-2 py-1"
+            >
+              <RankIcon rank={g.rank} />
+              <span className="font-semibold text-red-700">
+                {g.values.join(t("common.listSeparator"))}
+              </span>
+              {g.values.length > 1 && (
+                <span className="text-xs text-orange-600">
+                  {t("common.tied")}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* 決定（記録されている場合） */}
+      {result.decision && (
+        <div className="mt-3 rounded-md border-2 border-emerald-300 bg-emerald-50 px-3 py-2">
+          <div className="text-sm font-bold text-emerald-800">
+            {t("results.decision", {
+              level: result.decision.level,
+              title: findLevel(deck, result.decision.level)?.title ?? "",
+            })}
+          </div>
+          {result.decision.owner && (
+            <div className="text-xs text-gray-700">
+              {t("common.owner", { owner: result.decision.owner })}
+            </div>
+          )}
+          {result.decision.notes && (
+            <div className="mt-1 whitespace-pre-wrap text-xs text-gray-700">
+              {result.decision.notes}
+            </div>
+          )}
+          {result.decision.reviewDate && (
+            <div className="text-xs text-gray-700">
+              {t("common.reviewDate", { date: result.decision.reviewDate })}
+              {result.reviewRoomId &&
+                t("results.reviewed", { roomId: result.reviewRoomId })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* 中段：票の分布（旧データには counts が無い） */}
+      {result.counts && (
+        <div
+          className="mt-3 grid gap-2"
+          style={levelGridStyle(deck.levels.length)}
+        >
+          {deck.levels.map(({ level: v }) => {
+            const count = result.counts?.[v] ?? 0;
+            return (
+              <div
+                key={v}
+                className={`rounded-md border px-1 py-1 text-center ${
+                  count > 0
+                    ? "border-red-200 bg-red-50"
+                    : "border-gray-200 bg-gray-50"
+                }`}
+              >
+                <div className="text-xs font-semibold text-gray-700">
+                  {v}
+                </div>
+                <div className="text-xs text-red-600">
+                  {t("common.voteCount", { count })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* 追加カード（「?」など、集計の対象外） */}
+      {extraCards.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-2 text-xs text-gray-600">
+          {extraCards.map((e) => (
+            <span key={e.id} className="rounded-md bg-gray-50 px-2 py-1">
+              {t("common.extraCount", {
+                label: e.label,
+                count: result.extraCounts?.[e.id] ?? 0,
+              })}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* 統計（旧データには stats が無い） */}
+      {result.stats && (
+        <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+          <span
+            className={`font-semibold ${
+              result.stats.consensus === "split"
+                ? "text-orange-600"
+                : "text-emerald-600"
+            }`}
+          >
+            {t(`consensus.${result.stats.consensus}`)}
+          </span>
+          <span>
+            {t("stats.consensusScore")} {result.stats.consensusScore}
+          </span>
+          <span>
+            {t("stats.mean")} {result.stats.mean}
+          </span>
+          <span>
+            {t("stats.median")} {result.stats.median}
+          </span>
+          <span>
+            {t("stats.range", {
+              min: result.stats.min,
+              max: result.stats.max,
+            })}
+          </span>
+          <span>
+            {t("stats.stdDev")} {result.stats.stdDev}
+          </span>
+        </div>
+      )}
+
+      {/* 参加者ごとの投票（匿名のルームでは表示しない） */}
+      {!result.anonymous && result.votes.length > 0 && (
+        <details className="mt-2 text-xs text-gray-600">
+          <summary className="cursor-pointer select-none">
+            {t("common.votesByParticipant")}
+            {result.participantCount != null &&
+              t("common.parenthesized", {
+                text:
+                  t("common.participantSummary", {
+                    participants: result.participantCount,
+                    online: result.onlineCount ?? "-",
+                  }) +
+                  (result.observerCount
+                    ? t("common.observerSummary", {
+                        count: result.observerCount,
+                      })
+                    : ""),
+              })}
+          </summary>
+          <ul className="mt-1 flex flex-wrap gap-2">
+            {result.votes.map((v) => (
+              <li
+                key={v.participantId}
+                className="rounded-md bg-gray-50 px-2 py-1"
+              >
+                {v.name}
+                {t("common.labelSeparator")}
+                <span className="font-semibold text-red-700">
+                  {v.card != null ? cardLabel(deck, v.card) : t("common.notVoted")}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {/* 下段：ルームID（青枠）＋日付（右） */}
+      <div className="mt-2 flex items-center justify-between">
+        {/* ルームID（青枠） */}
+        <div className="text-xs text-gray-500">
+          {result.roomId}
+          {result.agendaIndex != null &&
+            ` ・ ${t("common.topicIndex", { index: result.agendaIndex })}`}
+          {result.round != null &&
+            ` ・ ${t("common.round", { round: result.round })}`}
+        </div>
+
+        {/* 日付（右、同じ高さ）＋詳細 */}
+        <div className="flex items-center gap-3 text-xs text-gray-500">
+          {formatDate(result.votedAt)}
+          <Link
+            href={`/results/${result.id}`}
+            className="text-gray-600 underline hover:text-gray-800"
+          >
+            {t("results.details")}
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
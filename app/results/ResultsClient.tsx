@@ -0,0 +1,385 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+  collection,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  startAfter,
+  where,
+  Timestamp,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+} from "firebase/firestore";
+import { db } from "../../src/lib/firebase";
+import { useAuthUser } from "../../src/lib/auth";
+import { useWorkspaces } from "../../src/lib/workspace";
+import { downloadFile, toCsv } from "../../src/lib/export";
+import {
+  RESULTS_CONFIG,
+  groupResults,
+  matchesResultFilters,
+  parseResultFilters,
+  resultsToCsvRows,
+  resultsToJson,
+  toResultFilterQuery,
+  type ResultFilters,
+} from "../../src/lib/results";
+import { DEFAULT_DECK, getDeck, mergeDeckLevels } from "../../src/lib/deck";
+import { parseVoteResult, type VoteResultEntry } from "../../src/lib/votes";
+import ResultCard from "./ResultCard";
+import { useI18n } from "../I18nProvider";
+
+// 日付キー（YYYY-MM-DD）のローカル時刻 0:00
+const startOfDay = (dateKey: string, addDays = 0) => {
+  const d = new Date(`${dateKey}T00:00:00`);
+  d.setDate(d.getDate() + addDays);
+  return Timestamp.fromDate(d);
+};
+
+// ワークスペース・roomId・日付・1位のレベルの条件と並び順（テーマは読み込み後に絞り込む）
+// パスコードのあるルームの結果は含めない
+const buildConstraints = (
+  workspaceId: string,
+  filters: ResultFilters
+): QueryConstraint[] => {
+  const constraints: QueryConstraint[] = [
+    where("workspaceId", "==", workspaceId),
+    where("hasPasscode", "==", false),
+  ];
+  if (filters.roomId) constraints.push(where("roomId", "==", filters.roomId));
+  if (filters.level != null)
+    constraints.push(where("winners", "array-contains", filters.level));
+  if (filters.from)
+    constraints.push(where("votedAt", ">=", startOfDay(filters.from)));
+  if (filters.to)
+    constraints.push(where("votedAt", "<", startOfDay(filters.to, 1)));
+  constraints.push(orderBy("votedAt", "desc"));
+  return constraints;
+};
+
+// 投票結果の履歴（検索・絞り込み・ページ送り）
+// 絞り込み条件は ?q=&room=&from=&to=&level= で指定する
+export default function ResultsClient() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const filterKey = searchParams.toString();
+
+  const { t, formatDate } = useI18n();
+  const authUser = useAuthUser();
+  // 選択中のワークスペースの結果だけを表示する
+  const { current: workspace } = useWorkspaces(authUser?.uid);
+  const workspaceId = workspace?.id ?? null;
+  const [draft, setDraft] = useState<ResultFilters>(() =>
+    parseResultFilters(new URLSearchParams(filterKey))
+  );
+  const [results, setResults] = useState<VoteResultEntry[]>([]);
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  // 読み込むページ数の上限に達し、条件に合う結果が PAGE_SIZE 件に届かなかったか
+  const [isScanCapped, setIsScanCapped] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  // 条件を変えたときに、前の条件の読み込み結果を捨てるため
+  const requestIdRef = useRef(0);
+
+  const filters = parseResultFilters(new URLSearchParams(filterKey));
+
+  const loadPage = useCallback(
+    async (after: QueryDocumentSnapshot | null) => {
+      if (!workspaceId) return;
+
+      const pageFilters = parseResultFilters(new URLSearchParams(filterKey));
+
+      const requestId = ++requestIdRef.current;
+      setIsLoading(true);
+      try {
+        // テーマの条件は読み込み後に絞り込むため、PAGE_SIZE 件見つかるまで続けて読み込む
+        // 読み込みすぎないよう、1回の操作では MAX_PAGES_PER_LOAD ページまでとする
+        const page: VoteResultEntry[] = [];
+        let last = after;
+        let matchCount = 0;
+        let more = true;
+        let pageCount = 0;
+        while (
+          more &&
+          matchCount < RESULTS_CONFIG.PAGE_SIZE &&
+          pageCount < RESULTS_CONFIG.MAX_PAGES_PER_LOAD
+        ) {
+          pageCount++;
+          const constraints = buildConstraints(workspaceId, pageFilters);
+          if (last) constraints.push(startAfter(last));
+          constraints.push(limit(RESULTS_CONFIG.PAGE_SIZE));
+
+          const snap = await getDocs(
+            query(collection(db, "vote_results"), ...constraints)
+          );
+          if (requestId !== requestIdRef.current) return;
+
+          const loaded = snap.docs.map((d) => parseVoteResult(d.id, d.data()));
+          page.push(...loaded);
+          matchCount += loaded.filter((r) =>
+            matchesResultFilters(r, pageFilters)
+          ).length;
+          last = snap.docs[snap.docs.length - 1] ?? last;
+          more = snap.docs.length === RESULTS_CONFIG.PAGE_SIZE;
+        }
+
+        setResults((prev) => (after ? [...prev, ...page] : page));
+        setCursor(last);
+        setHasMore(more);
+        setIsScanCapped(more && matchCount < RESULTS_CONFIG.PAGE_SIZE);
+      } catch (err) {
+        console.error("Error loading results:", err);
+        alert(t("common.loadResultsFailed"));
+      } finally {
+        if (requestId === requestIdRef.current) setIsLoading(false);
+      }
+    },
+    [filterKey, workspaceId, t]
+  );
+
+  useEffect(() => {
+    if (!authUser) return;
+    loadPage(null);
+  }, [authUser, loadPage]);
+
+  const handleApplyFilters = () => {
+    const q = toResultFilterQuery(draft);
+    router.replace(q ? `/results?${q}` : "/results");
+  };
+
+  const handleClearFilters = () => {
+    setDraft(parseResultFilters(new URLSearchParams()));
+    router.replace("/results");
+  };
+
+  // 条件に合う結果をすべて読み込んで書き出す（未読み込みのページも含む）
+  const handleExport = async (format: "csv" | "json") => {
+    if (!workspaceId) return;
+
+    setIsExporting(true);
+    try {
+      const all: VoteResultEntry[] = [];
+      let after: QueryDocumentSnapshot | null = null;
+      for (;;) {
+        const constraints = buildConstraints(workspaceId, filters);
+        if (after) constraints.push(startAfter(after));
+        constraints.push(limit(RESULTS_CONFIG.EXPORT_PAGE_SIZE));
+        const snap = await getDocs(
+          query(collection(db, "vote_results"), ...constraints)
+        );
+        all.push(...snap.docs.map((d) => parseVoteResult(d.id, d.data())));
+        if (snap.docs.length < RESULTS_CONFIG.EXPORT_PAGE_SIZE) break;
+        after = snap.docs[snap.docs.length - 1];
+      }
+
+      const matched = all.filter((r) => matchesResultFilters(r, filters));
+      const basename = filters.roomId
+        ? `vote-results-${filters.roomId}`
+        : "vote-results";
+      if (format === "csv") {
+        downloadFile(
+          `${basename}.csv`,
+          toCsv(resultsToCsvRows(matched)),
+          "text/csv"
+        );
+      } else {
+        downloadFile(
+          `${basename}.json`,
+          resultsToJson(matched),
+          "application/json"
+        );
+      }
+    } catch (err) {
+      console.error("Error exporting results:", err);
+      alert(t("common.exportResultsFailed"));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const groups = groupResults(
+    results.filter((r) => matchesResultFilters(r, filters))
+  );
+
+  // レベルの選択肢（読み込んだ結果のデッキのレベルをまとめる）
+  const levelOptions = mergeDeckLevels([
+    DEFAULT_DECK,
+    ...results.map(getDeck),
+  ]).map((l) => l.level);
+
+  const inputClass = "h-[40px] px-3 border border-slate-300 rounded-lg text-sm";
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-100 to-slate-200 px-6 md:px-8 pt-12 pb-10">
+      <div className="max-w-4xl mx-auto mb-6 flex flex-wrap items-center justify-between gap-2">
+        <button
+          onClick={() => router.push("/")}
+          className="inline-flex items-center gap-2 rounded-xl border border-slate-300 bg-white px-4 h-[44px] text-sm font-medium text-slate-600 hover:bg-slate-50 hover:text-slate-800 transition"
+        >
+          {t("common.backHome")}
+        </button>
+
+        {/* 書き出し（現在の条件に合う結果すべて） */}
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleExport("csv")}
+            disabled={isExporting}
+            className="rounded-xl border border-slate-300 bg-white px-4 h-[44px] text-sm font-medium text-slate-600 hover:bg-slate-50 transition disabled:opacity-50"
+          >
+            {t("common.saveCsv")}
+          </button>
+          <button
+            onClick={() => handleExport("json")}
+            disabled={isExporting}
+            className="rounded-xl border border-slate-300 bg-white px-4 h-[44px] text-sm font-medium text-slate-600 hover:bg-slate-50 transition disabled:opacity-50"
+          >
+            {t("common.saveJson")}
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto rounded-xl border border-slate-300 bg-white p-6 shadow-sm">
+        <h1 className="mb-1 text-2xl font-bold text-slate-900 text-center">
+          {t("results.title")}
+        </h1>
+        <p className="mb-6 text-center text-sm text-slate-500">
+          {workspace?.name ?? ""}
+        </p>
+
+        {/* 絞り込み */}
+        <div className="mb-6 space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <input
+              value={draft.text}
+              onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.nativeEvent.isComposing)
+                  handleApplyFilters();
+              }}
+              placeholder={t("results.searchPlaceholder")}
+              className={`flex-1 min-w-[200px] ${inputClass}`}
+            />
+            <input
+              value={draft.roomId}
+              onChange={(e) =>
+                setDraft({ ...draft, roomId: e.target.value.toUpperCase() })
+              }
+              placeholder={t("common.roomId")}
+              className={`w-[140px] ${inputClass}`}
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-slate-700">
+            <input
+              type="date"
+              value={draft.from}
+              onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+              className={inputClass}
+              aria-label={t("results.from")}
+            />
+            〜
+            <input
+              type="date"
+              value={draft.to}
+              onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+              className={inputClass}
+              aria-label={t("results.to")}
+            />
+            <select
+              value={draft.level ?? ""}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  level: e.target.value ? Number(e.target.value) : null,
+                })
+              }
+              className={inputClass}
+              aria-label={t("results.winningLevel")}
+            >
+              <option value="">{t("results.winningLevelAll")}</option>
+              {levelOptions.map((v) => (
+                <option key={v} value={v}>
+                  {t("results.winningLevelOption", { level: v })}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleApplyFilters}
+              className="rounded-lg bg-slate-800 px-4 h-[40px] text-sm font-semibold text-white hover:bg-slate-900 transition"
+            >
+              {t("results.apply")}
+            </button>
+            {filterKey && (
+              <button
+                onClick={handleClearFilters}
+                className="rounded-lg border border-slate-300 bg-white px-4 h-[40px] text-sm text-slate-600 hover:bg-slate-50 transition"
+              >
+                {t("results.clear")}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* 結果（ルーム・議題ごとにラウンドをまとめる） */}
+        {groups.length === 0 ? (
+          <p className="py-8 text-center text-slate-400">
+            {isLoading
+              ? t("common.loading")
+              : isScanCapped
+                ? t("results.scanCapped")
+                : t("results.empty")}
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {groups.map((group) => {
+              const latest = group.results[group.results.length - 1];
+              return (
+                <section key={group.key}>
+                  <div className="mb-2 flex items-baseline justify-between gap-2">
+                    <h2 className="font-semibold text-slate-900 break-words">
+                      {group.topic.trim() || t("common.untitledTopic")}
+                    </h2>
+                    <div className="shrink-0 text-xs text-slate-500">
+                      {group.roomId} ・{" "}
+                      {t("results.roundCount", {
+                        count: group.results.length,
+                      })}{" "}
+                      ・{" "}
+                      {formatDate(latest.votedAt)}
+                    </div>
+                  </div>
+                  <div className="space-y-2 border-l-2 border-slate-200 pl-3">
+                    {group.results.map((r) => (
+                      <ResultCard key={r.id} result={r} />
+                    ))}
+                  </div>
+                </section>
+              );
+            })}
+          </div>
+        )}
+
+        {hasMore && (
+          <div className="mt-6 text-center">
+            {isScanCapped && !isLoading && groups.length > 0 && (
+              <p className="mb-3 text-sm text-slate-500">
+                {t("results.scanCapped")}
+              </p>
+            )}
+            <button
+              onClick={() => loadPage(cursor)}
+              disabled={isLoading}
+              className="rounded-lg border border-slate-300 bg-white px-6 h-[44px] text-sm text-slate-700 hover:bg-slate-50 transition disabled:opacity-50"
+            >
+              {isLoading ? t("common.loading") : t("results.loadMore")}
+            </button>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
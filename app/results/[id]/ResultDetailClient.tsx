@@ -0,0 +1,409 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+} from "firebase/firestore";
+import { Check, Copy } from "lucide-react";
+import { db } from "../../../src/lib/firebase";
+import { useAuthUser } from "../../../src/lib/auth";
+import { getWinningLevels } from "../../../src/lib/results";
+import {
+  cardLabel,
+  findLevel,
+  getDeck,
+  localizeDeck,
+  type CardValue,
+} from "../../../src/lib/deck";
+import { parseVoteResult, type VoteResultEntry } from "../../../src/lib/votes";
+import { RankIcon } from "../ResultCard";
+import { useI18n } from "../../I18nProvider";
+
+// 投票の並び順（レベルの昇順 → 追加カード → 未投票）
+const cardSortKey = (card: CardValue | null) =>
+  typeof card === "number" ? card : card != null ? 1000 : 2000;
+
+// 1ラウンド分の投票結果の詳細（会議メモやチケットに貼れる固定URL）
+export default function ResultDetailClient() {
+  const params = useParams();
+  const router = useRouter();
+  const resultId = params.id as string;
+
+  const { locale, t, formatDate } = useI18n();
+  const authUser = useAuthUser();
+  const [result, setResult] = useState<VoteResultEntry | null>(null);
+  // 同じルーム・同じ議題の他のラウンド
+  const [otherRounds, setOtherRounds] = useState<VoteResultEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!authUser || !resultId) return;
+
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const snap = await getDoc(doc(db, "vote_results", resultId));
+        if (!snap.exists()) {
+          setResult(null);
+          return;
+        }
+        const entry = parseVoteResult(snap.id, snap.data());
+        setResult(entry);
+
+        const roomSnap = await getDocs(
+          query(
+            collection(db, "vote_results"),
+            where("workspaceId", "==", entry.workspaceId),
+            where("roomId", "==", entry.roomId)
+          )
+        );
+        setOtherRounds(
+          roomSnap.docs
+            .map((d) => parseVoteResult(d.id, d.data()))
+            .filter(
+              (r) =>
+                r.id !== entry.id &&
+                (entry.topicId
+                  ? r.topicId === entry.topicId
+                  : r.topic === entry.topic)
+            )
+            .sort((a, b) => (a.round ?? 0) - (b.round ?? 0))
+        );
+      } catch (err) {
+        console.error("Error loading result:", err);
+        alert(t("common.loadResultsFailed"));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [authUser, resultId, t]);
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  if (isLoading || !result) {
+    return (
+      <main className="min-h-screen bg-gradient-to-br from-slate-100 to-slate-200 flex items-center justify-center">
+        <p className="text-slate-500">
+          {isLoading ? t("common.loading") : t("detail.notFound")}
+        </p>
+      </main>
+    );
+  }
+
+  const deck = localizeDeck(getDeck(result), locale);
+  const winners = getWinningLevels(result);
+  const maxCount = Math.max(
+    1,
+    ...deck.levels.map((l) => result.counts?.[l.level] ?? 0),
+    ...deck.extras.map((e) => result.extraCounts?.[e.id] ?? 0)
+  );
+  const totalVotes = result.stats?.voteCount ?? 0;
+  const sortedVotes = [...result.votes].sort(
+    (a, b) => cardSortKey(a.card) - cardSortKey(b.card)
+  );
+  // 匿名のルームでは名前を出さず、理由だけをカードと一緒に表示する
+  const rationales = result.anonymous
+    ? sortedVotes.filter((v) => v.comment)
+    : [];
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-100 to-slate-200 px-6 md:px-8 pt-12 pb-10 print:bg-white print:p-0">
+      <div className="max-w-3xl mx-auto mb-6 flex flex-wrap items-center justify-between gap-2 print:hidden">
+        <button
+          onClick={() => router.push("/results")}
+          className="inline-flex items-center gap-2 rounded-xl border border-slate-300 bg-white px-4 h-[44px] text-sm font-medium text-slate-600 hover:bg-slate-50 hover:text-slate-800 transition"
+        >
+          {t("detail.backToHistory")}
+        </button>
+
+        <button
+          onClick={handleCopyLink}
+          className="inline-flex items-center gap-2 rounded-xl border border-slate-300 bg-white px-4 h-[44px] text-sm font-medium text-slate-600 hover:bg-slate-50 transition"
+        >
+          {copied ? (
+            <Check size={18} className="text-emerald-600" />
+          ) : (
+            <Copy size={18} />
+          )}
+          {t("detail.copyLink")}
+        </button>
+      </div>
+
+      <div className="max-w-3xl mx-auto space-y-6">
+        {/* テーマ */}
+        <div className="rounded-xl border border-slate-300 bg-white p-6 shadow-sm">
+          <h1 className="text-2xl font-bold text-slate-900 text-center break-words">
+            {result.topic.trim() || t("common.untitledTopic")}
+          </h1>
+          <div className="mt-2 text-center text-sm text-slate-500">
+            {result.roomId}
+            {result.agendaIndex != null &&
+              ` ・ ${t("common.topicIndex", { index: result.agendaIndex })}`}
+            {result.round != null &&
+              ` ・ ${t("common.round", { round: result.round })}`}
+            {" ・ "}
+            {formatDate(result.votedAt)}
+          </div>
+        </div>
+
+        {/* 決定 */}
+        {result.decision && (
+          <div className="rounded-xl border-2 border-emerald-300 bg-emerald-50 p-6">
+            <div className="text-sm text-emerald-700">
+              {t("common.decidedLevel")}
+            </div>
+            <div className="text-2xl font-bold text-emerald-800">
+              {result.decision.level}{" "}
+              {findLevel(deck, result.decision.level)?.title ?? ""}
+            </div>
+            {result.decision.owner && (
+              <div className="mt-2 text-sm text-slate-700">
+                {t("common.owner", { owner: result.decision.owner })}
+              </div>
+            )}
+            {result.decision.notes && (
+              <div className="mt-2">
+                <div className="text-xs text-slate-500">{t("detail.notes")}</div>
+                <div className="whitespace-pre-wrap text-sm text-slate-700">
+                  {result.decision.notes}
+                </div>
+              </div>
+            )}
+            {result.decision.reviewDate && (
+              <div className="mt-2 text-sm text-slate-700">
+                {t("common.reviewDate", { date: result.decision.reviewDate })}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* 票の分布 */}
+        <div className="rounded-xl border border-slate-300 bg-white p-6 shadow-sm">
+          <h2 className="mb-4 text-lg font-semibold text-slate-900">
+            {t("detail.distribution")}
+          </h2>
+          {result.counts ? (
+            <div className="space-y-2">
+              {deck.levels.map((meta) => {
+                const v = meta.level;
+                const count = result.counts?.[v] ?? 0;
+                const group = result.rankings.find((g) =>
+                  g.values.includes(v)
+                );
+                return (
+                  <div key={v} className="flex items-center gap-3 text-sm">
+                    <div className="w-[88px] shrink-0 text-slate-700">
+                      <span className="font-semibold">{v}</span> {meta.title}
+                    </div>
+                    <div className="h-6 flex-1 rounded bg-slate-100">
+                      <div
+                        className={`h-6 rounded ${
+                          winners.includes(v) ? "bg-red-400" : "bg-slate-400"
+                        }`}
+                        style={{ width: `${(count / maxCount) * 100}%` }}
+                      />
+                    </div>
+                    <div className="w-[96px] shrink-0 text-right text-slate-600">
+                      {t("common.voteCount", { count })}
+                      {totalVotes > 0 &&
+                        t("common.percent", {
+                          percent: Math.round((count / totalVotes) * 100),
+                        })}
+                    </div>
+                    <div className="w-[24px] shrink-0">
+                      {count > 0 && group && <RankIcon rank={group.rank} />}
+                    </div>
+                  </div>
+                );
+              })}
+              {/* 追加カード（集計の対象外） */}
+              {deck.extras.map((e) => {
+                const count = result.extraCounts?.[e.id] ?? 0;
+                return (
+                  <div key={e.id} className="flex items-center gap-3 text-sm">
+                    <div
+                      className="w-[88px] shrink-0 text-slate-500"
+                      title={e.description}
+                    >
+                      {e.label}
+                    </div>
+                    <div className="h-6 flex-1 rounded bg-slate-100">
+                      <div
+                        className="h-6 rounded bg-slate-300"
+                        style={{ width: `${(count / maxCount) * 100}%` }}
+                      />
+                    </div>
+                    <div className="w-[96px] shrink-0 text-right text-slate-500">
+                      {t("common.cardCount", { count })}
+                    </div>
+                    <div className="w-[24px] shrink-0" />
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2 text-sm text-slate-700">
+              {/* 旧データは順位のみ */}
+              {result.rankings.map((g) => (
+                <span key={g.rank} className="flex items-center gap-1">
+                  <RankIcon rank={g.rank} />
+                  {g.values.join(t("common.listSeparator"))}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* 統計 */}
+        {result.stats && (
+          <div className="rounded-xl border border-slate-300 bg-white p-6 shadow-sm">
+            <h2 className="mb-4 text-lg font-semibold text-slate-900">
+              {t("detail.stats")}
+            </h2>
+            <div
+              className={`mb-3 text-sm font-semibold ${
+                result.stats.consensus === "split"
+                  ? "text-orange-600"
+                  : "text-emerald-600"
+              }`}
+            >
+              {t(`consensus.${result.stats.consensus}`)}
+            </div>
+            <dl className="grid grid-cols-3 gap-3 text-sm md:grid-cols-6">
+              {[
+                [t("stats.consensusScore"), result.stats.consensusScore],
+                [t("stats.mean"), result.stats.mean],
+                [t("stats.median"), result.stats.median],
+                [t("stats.min"), result.stats.min],
+                [t("stats.max"), result.stats.max],
+                [t("stats.stdDev"), result.stats.stdDev],
+              ].map(([label, value]) => (
+                <div
+                  key={label}
+                  className="rounded-lg bg-slate-50 p-2 text-center"
+                >
+                  <dt className="text-xs text-slate-500">{label}</dt>
+                  <dd className="font-semibold text-slate-900">{value}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+
+        {/* 判断の理由（匿名のルーム） */}
+        {rationales.length > 0 && (
+          <div className="rounded-xl border border-slate-300 bg-white p-6 shadow-sm">
+            <h2 className="mb-1 text-lg font-semibold text-slate-900">
+              {t("detail.rationale")}
+            </h2>
+            <p className="mb-3 text-xs text-slate-500">
+              {t("detail.anonymousNote")}
+            </p>
+            <ul className="divide-y text-sm">
+              {rationales.map((v, i) => (
+                <li key={i} className="flex items-start gap-3 py-2">
+                  <span className="font-semibold text-red-700 whitespace-nowrap">
+                    {v.card != null ? cardLabel(deck, v.card) : t("common.notVoted")}
+                  </span>
+                  <span className="text-slate-700 whitespace-pre-wrap">
+                    {v.comment}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* 参加者ごとの投票 */}
+        {!result.anonymous && sortedVotes.length > 0 && (
+          <div className="rounded-xl border border-slate-300 bg-white p-6 shadow-sm">
+            <h2 className="mb-1 text-lg font-semibold text-slate-900">
+              {t("common.votesByParticipant")}
+            </h2>
+            {result.participantCount != null && (
+              <p className="mb-3 text-xs text-slate-500">
+                {t("common.participantSummary", {
+                  participants: result.participantCount,
+                  online: result.onlineCount ?? "-",
+                })}
+                {result.observerCount
+                  ? t("common.observerSummary", {
+                      count: result.observerCount,
+                    })
+                  : ""}
+              </p>
+            )}
+            <ul className="divide-y text-sm">
+              {sortedVotes.map((v) => (
+                <li key={v.participantId} className="py-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-slate-800">
+                      {v.name}
+                      {!v.online && (
+                        <span className="ml-2 text-xs text-slate-400">
+                          {t("common.offline")}
+                        </span>
+                      )}
+                    </span>
+                    <span className="font-semibold text-red-700">
+                      {v.card != null ? cardLabel(deck, v.card) : t("common.notVoted")}
+                    </span>
+                  </div>
+                  {v.comment && (
+                    <p className="mt-1 text-xs text-slate-600 whitespace-pre-wrap">
+                      {v.comment}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* 同じ議題の他のラウンド */}
+        {otherRounds.length > 0 && (
+          <div className="rounded-xl border border-slate-300 bg-white p-6 shadow-sm print:hidden">
+            <h2 className="mb-3 text-lg font-semibold text-slate-900">
+              {t("detail.otherRounds")}
+            </h2>
+            <ul className="space-y-1 text-sm">
+              {otherRounds.map((r) => (
+                <li key={r.id}>
+                  <button
+                    onClick={() => router.push(`/results/${r.id}`)}
+                    className="text-slate-700 underline hover:text-slate-900"
+                  >
+                    {r.round != null
+                      ? t("common.round", { round: r.round })
+                      : t("detail.roundFallback")}
+                    {" ・ "}
+                    {t("detail.firstPlace", {
+                      levels:
+                        getWinningLevels(r).join(t("common.listSeparator")) ||
+                        "-",
+                    })}
+                    {" ・ "}
+                    {formatDate(r.votedAt)}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,13 @@
+// app/results/[id]/page.tsx
+import { Suspense } from "react";
+import ResultDetailClient from "./ResultDetailClient";
+
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return (
+    <Suspense fallback={null}>
+      <ResultDetailClient />
+    </Suspense>
+  );
+}
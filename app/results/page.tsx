@@ -0,0 +1,13 @@
+// app/results/page.tsx
+import { Suspense } from "react";
+import ResultsClient from "./ResultsClient";
+
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return (
+    <Suspense fallback={null}>
+      <ResultsClient />
+    </Suspense>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import { useParams, useRouter } from "next/navigation";
+import {
+  getLastUserName,
+  setLastUserName,
+  withName,
+  withQuery,
+} from "../../../src/lib/utils";
+import { useI18n } from "../../I18nProvider";
+
+// 前回の名前は変更を購読しない（この画面を開いている間は変わらない）
+const subscribeNothing = () => () => {};
+
+// 招待リンク（/room/ABC123）から開いたときの参加画面
+// 名前を入力してルームに入る（前回の名前を最初から入れておく）
+export default function JoinRoomClient() {
+  const params = useParams();
+  const router = useRouter();
+  const roomId = params.roomId as string;
+
+  const { t } = useI18n();
+  // 前回の名前（localStorage はサーバー側の描画では読めないため、表示後に反映される）
+  const lastName = useSyncExternalStore(
+    subscribeNothing,
+    getLastUserName,
+    () => null
+  );
+  // 入力した名前（未入力の間は前回の名前を表示する）
+  const [editedName, setEditedName] = useState<string | null>(null);
+  const name = editedName ?? lastName ?? "";
+  const [isObserver, setIsObserver] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleJoin = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError(t("home.error.nameRequired"));
+      return;
+    }
+
+    setLastUserName(trimmed);
+    const path = withName(`/room/${roomId}`, trimmed);
+    router.replace(isObserver ? withQuery(path, "role", "observer") : path);
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-100 to-slate-200 flex items-center justify-center px-6">
+      <div className="w-full max-w-md rounded-xl border border-slate-300 bg-white p-6 shadow-sm">
+        <h1 className="mb-1 text-center text-xl font-bold text-slate-900">
+          {t("join.title")}
+        </h1>
+        <p className="mb-6 text-center text-sm text-slate-500">
+          {t("common.roomId")}{" "}
+          <span className="font-mono font-semibold text-slate-800">
+            {roomId}
+          </span>
+        </p>
+
+        <label className="block text-sm font-medium text-slate-700 mb-2">
+          {t("home.yourName")}
+        </label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setEditedName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.nativeEvent.isComposing) handleJoin();
+          }}
+          placeholder={t("home.namePlaceholder")}
+          className="w-full h-14 px-4 border border-slate-400 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          maxLength={20}
+          autoFocus
+        />
+
+        <label className="mt-4 flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={isObserver}
+            onChange={(e) => setIsObserver(e.target.checked)}
+          />
+          {t("home.roleObserver")}
+        </label>
+
+        {error && (
+          <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <button
+          onClick={handleJoin}
+          className="mt-6 w-full h-[52px] rounded-xl bg-gradient-to-r from-blue-500 to-indigo-500 text-white text-lg font-semibold shadow-md transition hover:shadow-lg"
+        >
+          {t("join.submit")}
+        </button>
+        <button
+          onClick={() => router.push("/")}
+          className="mt-3 w-full text-sm text-slate-500 underline hover:text-slate-700"
+        >
+          {t("common.backHome")}
+        </button>
+      </div>
+    </main>
+  );
+}
@@ -2,93 +2,238 @@
 
 import { useEffect, useState, useRef, useCallback } from "react";
 import { useParams, useSearchParams, useRouter } from "next/navigation";
+import Image from "next/image";
 import { db } from "../../../src/lib/firebase";
+import { useAuthUser } from "../../../src/lib/auth";
+import {
+  AGENDA_CONFIG,
+  createAgendaItem,
+  getAgenda,
+  getCurrentTopicId,
+  moveAgendaItem,
+  parseTopicImport,
+  type AgendaItem,
+} from "../../../src/lib/agenda";
+import TopicImportPreview from "../../TopicImportPreview";
+import { useI18n } from "../../I18nProvider";
+import {
+  buildReviewIcs,
+  defaultReviewDate,
+  type ReviewSource,
+} from "../../../src/lib/review";
+import { downloadFile, toCsv } from "../../../src/lib/export";
+import { resultsToCsvRows, resultsToJson } from "../../../src/lib/results";
+import {
+  ROOM_EXPIRY_CONFIG,
+  cleanupRoom,
+  expireRoom,
+  getLastActivityMs,
+  getRoomExpiresAtMs,
+  needsCleanup,
+} from "../../../src/lib/expiry";
 import {
   doc,
   collection,
   onSnapshot,
   updateDoc,
-  addDoc,
   setDoc,
   serverTimestamp,
   getDoc,
   getDocs,
+  query,
+  where,
   writeBatch,
+  runTransaction,
+  arrayUnion,
+  arrayRemove,
+  deleteField,
   Timestamp,
+  type FirestoreError,
+  type Transaction,
 } from "firebase/firestore";
 import {
-  getOrCreateParticipantId,
-  getHostId,
+  getClaimCode,
+  setClaimCode,
+  generateClaimCode,
+  hashClaimCode,
+  formatRemaining,
+  normalizeUserName,
+  setLastUserName,
+  PASSCODE_CONFIG,
   PRESENCE_CONFIG,
+  TIMER_CONFIG,
   withName,
 } from "../../../src/lib/utils";
-
-import { Copy, Check } from "lucide-react";
+import {
+  cardLabel,
+  findLevel,
+  getDeck,
+  levelGridStyle,
+  localizeDeck,
+  type CardValue,
+  type Deck,
+} from "../../../src/lib/deck";
+import {
+  buildSpeakingOrder,
+  computeVoteStats,
+  parseParticipantRole,
+  parseVoteResult,
+  rankVotes,
+  tallyExtraCards,
+  tallyVotes,
+  toLegacyPodium,
+  type Decision,
+  type ParticipantRole,
+  type RankGroup,
+  type VoteResult,
+  VOTE_CONFIG,
+} from "../../../src/lib/votes";
+
+import QRCode from "qrcode";
+import {
+  Copy,
+  Check,
+  QrCode,
+  Crown as CrownIcon,
+  ShieldCheck,
+  X,
+} from "lucide-react";
 
 interface Participant {
   participantId: string;
   name: string;
-  selectedCard: number | null;
+  selectedCard: CardValue | null;
+  role: ParticipantRole;
   online: boolean;
   lastSeenAt: Timestamp | null;
+  // 判断の理由（任意）
+  comment: string;
 }
 
 interface RoomData {
   status: "voting" | "revealed" | "ended";
+  // ルームが属するワークスペース（ワークスペース機能より前のルームでは未設定）
+  workspaceId?: string;
+  // ホームのルーム一覧に表示しない
+  unlisted?: boolean;
+  // 参加にパスコードが必要（ハッシュは読み取れない secrets/passcode にある）
+  hasPasscode?: boolean;
+  // 結果に参加者ごとの名前を残さない（作成時のみ設定）
+  anonymous?: boolean;
   hostId: string;
+  // 共同ホスト（締め切り・リセット・終了などの進行操作ができる）
+  coHostIds?: string[];
+  // ホスト復帰コードがある（ハッシュは読み取れない secrets/hostClaim にある）
+  hasHostClaim?: boolean;
+  // 現在の議題のタイトル（agenda の現在の議題と同じ）
   topic?: string;
+  // 議題一覧と現在の議題
+  agenda?: AgendaItem[];
+  currentTopicId?: string;
+  // 現在の議題のラウンド番号（再投票ごとに +1、旧ルームでは未設定）
+  round?: number;
+  // 公開後の発言順（participantId）と現在の発言者
+  speakingOrder?: string[];
+  currentSpeakerId?: string | null;
+  // 投票タイマー（開始時刻はサーバー時刻、未開始なら null）
+  timerStartedAt?: Timestamp | null;
+  timerDurationSec?: number | null;
+  // manual: ホストが開始 / allVoted: 全員投票による自動公開の猶予
+  timerKind?: "manual" | "allVoted" | null;
+  // 全員投票したら自動で公開する（ホストが猶予中に取り消したラウンドは除く）
+  autoReveal?: boolean;
+  autoRevealPausedRound?: number | null;
+  // ホストが退出させた参加者（該当するクライアントはホームに戻る）
+  removedParticipantIds?: string[];
+  // 参加したことのある ID（終了後にホスト復帰コード・パスコードの入力を削除するため）
+  joinedIds?: string[];
+  // オフラインの参加者の票を集計に含めない
+  excludeOfflineVotes?: boolean;
+  // 直近に公開したラウンドの vote_results ドキュメントID（決定の記録先）
+  lastResultId?: string | null;
+  // 過去の決定を見直すために作ったルームの場合、前回の結果
+  reviewOf?: ReviewSource | null;
+  // カードのセット（作成時に選択、旧ルームでは未設定 = 既定のデッキ）
+  deck?: Deck;
+  // 最後に参加者が在席していた時刻と、操作がないまま終了するまでの秒数
+  lastActivityAt?: Timestamp | null;
+  idleTimeoutSec?: number;
+  // 終了の理由（idle: 操作がないための自動終了）
+  endedReason?: "idle" | null;
+  // 終了後にサブコレクションを削除し終えた時刻
+  cleanedUpAt?: Timestamp | null;
   createdAt: unknown;
 }
 
-interface VoteResult {
-  roomId: string;
-  topic: string;
-  first: number | null;
-  second: number | null;
-  third: number | null;
-  votedAt: Timestamp;
-}
-
-const CARD_VALUES = [1, 2, 3, 4, 5, 6, 7];
-
-const DELEGATION_LEVELS = [
-  { level: 1, title: "指示", description: "上司が決めて指示する" },
-  { level: 2, title: "説得", description: "上司が決めて説明・説得する" },
-  { level: 3, title: "相談", description: "意見を聞いた上で上司が決める" },
-  { level: 4, title: "合意", description: "話し合って一緒に決める" },
-  { level: 5, title: "助言", description: "部下が決め、必要なら助言する" },
-  { level: 6, title: "委任", description: "部下が自由に決めて実行する" },
-  { level: 7, title: "報告", description: "部下が決め、事後報告のみ" },
-];
-
 export default function RoomClient() {
   const params = useParams();
   const searchParams = useSearchParams();
   const router = useRouter();
   const roomId = params.roomId as string;
-  const userName = searchParams.get("name") || "匿名";
+  const { locale, t } = useI18n();
+  const userName = searchParams.get("name") || t("room.anonymous");
+  // 参加時に選んだ役割（未指定・不正な値なら既存の役割を維持、新規は voter）
+  const roleFromQuery = parseParticipantRole(searchParams.get("role"));
 
   const [roomData, setRoomData] = useState<RoomData | null>(null);
   const [participants, setParticipants] = useState<Participant[]>([]);
-  const [participantId] = useState(() => getOrCreateParticipantId());
-  const [selectedCard, setSelectedCard] = useState<number | null>(null);
+  // 参加者ID = Firebase Authentication の UID（ログインが確定するまでは空文字）
+  const authUser = useAuthUser();
+  const participantId = authUser?.uid ?? "";
+  const [selectedCard, setSelectedCard] = useState<CardValue | null>(null);
+  // 判断の理由の入力中の値（保存済みの値は参加者ドキュメント）
+  const [comment, setComment] = useState("");
+  const savedCommentRef = useRef<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [hideOffline] = useState(false); // オフライン参加者も表示するか
+  // サーバー時刻 - 端末時刻（ミリ秒）。タイマーを端末の時計のずれに左右されないようにする
+  const [serverTimeOffset, setServerTimeOffset] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [customTimerSec, setCustomTimerSec] = useState("");
+  const [newTopic, setNewTopic] = useState("");
+  // 議題のまとめて追加（null なら閉じている）
+  const [bulkTopicText, setBulkTopicText] = useState<string | null>(null);
+  // 決定の記録
+  const [currentDecision, setCurrentDecision] = useState<Decision | null>(null);
+  const [isEditingDecision, setIsEditingDecision] = useState(false);
+  const [decisionLevel, setDecisionLevel] = useState<number | null>(null);
+  const [decisionOwner, setDecisionOwner] = useState("");
+  const [decisionNotes, setDecisionNotes] = useState("");
+  const [decisionReviewDate, setDecisionReviewDate] = useState("");
+  // 作成時（または復帰時）にこの端末へ保存したホスト復帰コード
+  const [claimCode, setClaimCodeState] = useState(() => getClaimCode(roomId));
+  const [showClaimCode, setShowClaimCode] = useState(false);
 
   const heartbeatIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const participantRefRef = useRef(
-    doc(db, "rooms", roomId, "participants", participantId)
-  );
-
-  const isHost = roomData ? getHostId(roomId) === roomData.hostId : false;
+  const isRemovedRef = useRef(false);
+  const hasJoinedRef = useRef(false);
+  // ホスト復帰コードの作成中（同じコードを二重に作らないため）
+  const isCreatingClaimRef = useRef(false);
+  // 参加者ドキュメントの作成（パスコードの確認）が終わったか
+  const [isParticipantReady, setIsParticipantReady] = useState(false);
+  const lastSeenMsRef = useRef<number | null>(null);
+  const autoRevealTimerRef = useRef<number | null>(null);
+  const allVotedSyncRef = useRef<string | null>(null);
+
+  // ホスト判定（Firestore のセキュリティルールでも同じ条件で制限している）
+  const isHost = !!participantId && roomData?.hostId === participantId;
+  const isCoHost =
+    !!participantId && !!roomData?.coHostIds?.includes(participantId);
+  // 進行操作（締め切り・リセット・終了・タイマーなど）ができるか
+  const canModerate = isHost || isCoHost;
   const isVoting = roomData?.status === "voting";
   const isRevealed = roomData?.status === "revealed";
   const [copied, setCopied] = useState(false);
+  // 招待リンクとQRコード（null なら閉じている）
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [inviteQr, setInviteQr] = useState("");
+  const [isInviteCopied, setIsInviteCopied] = useState(false);
 
   // オンライン状態を更新する関数
+  // 退出させられた参加者のドキュメントを再作成しないよう updateDoc で更新する
   const updateOnlineStatus = useCallback(
     async (online: boolean) => {
-      if (!roomId || !participantId) return;
+      if (!roomId || !participantId || isRemovedRef.current) return;
 
       try {
         const participantRef = doc(
@@ -99,89 +244,222 @@ export default function RoomClient() {
           participantId
         );
 
-        await setDoc(
-          participantRef,
-          {
-            // name は既存を壊さないよう merge 前提でOK
-            online,
-            lastSeenAt: serverTimestamp(),
-            updatedAt: serverTimestamp(),
-          },
-          { merge: true }
-        );
+        await updateDoc(participantRef, {
+          online,
+          lastSeenAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
       } catch (err) {
+        // 参加者ドキュメントの作成前・削除後と、終了したルーム（ルールで拒否）は無視
+        const code = (err as FirestoreError).code;
+        if (code === "not-found" || code === "permission-denied") return;
         console.error("Error updating online status:", err);
       }
     },
     [roomId, participantId]
   );
 
-  // 投票結果データ保存用取得処理
-  const getTop3 = () => {
-    const sorted = [...CARD_VALUES]
-      .map((v) => ({ value: v, count: counts[v] ?? 0 }))
-      .sort((a, b) => b.count - a.count);
+  // 投票結果データ保存処理（公開と同じトランザクション内で1件だけ書き込む）
+  // 保存したドキュメントの ID を返す
+  const saveVoteResult = (tx: Transaction, room: RoomData) => {
+    const top3 = rankings.filter((g) => g.rank <= 3);
 
-    const getRankValue = (rank: number) => {
-      const item = sorted[rank - 1];
-      return item && item.count > 0 ? item.value : null;
-    };
+    const roomAgenda = getAgenda(room);
+    const topicId = getCurrentTopicId(room);
 
-    return {
-      first: getRankValue(1),
-      second: getRankValue(2),
-      third: getRankValue(3),
+    const result: Omit<VoteResult, "votedAt"> = {
+      roomId,
+      workspaceId: room.workspaceId ?? null,
+      hasPasscode: !!room.hasPasscode,
+      topic: room.topic ?? "",
+      topicId,
+      agendaIndex: roomAgenda.findIndex((item) => item.id === topicId) + 1 || null,
+      ...toLegacyPodium(top3),
+      rankings: top3,
+      winners: top3.find((g) => g.rank === 1)?.values ?? [],
+      counts,
+      extraCounts,
+      deck: getDeck(room),
+      anonymous: !!room.anonymous,
+      // 匿名のルームでは誰の投票かが分からないよう ID・名前を残さない
+      votes: countedVoters.map((p) => ({
+        participantId: room.anonymous ? "" : p.participantId,
+        name: room.anonymous ? "" : p.name,
+        card: p.selectedCard ?? null,
+        online: p.online,
+        comment: p.comment,
+      })),
+      participantCount: voters.length,
+      onlineCount: voters.filter((p) => p.online).length,
+      observerCount: observers.length,
+      round: room.round ?? 1,
+      stats,
+      decision: null,
+      reviewRoomId: null,
     };
+
+    const resultRef = doc(collection(db, "vote_results"));
+    tx.set(resultRef, {
+      ...result,
+      votedAt: serverTimestamp(),
+    });
+    return resultRef.id;
   };
 
-  // 投票結果データ保存処理
-  const saveVoteResult = async () => {
-    if (!roomId || !roomData) return;
+  // 投票を公開して結果を保存する
+  // 複数のクライアントが同時に呼んでも、status が voting の間に成功した1回だけが反映される
+  const revealAndSave = async () => {
+    const roomRef = doc(db, "rooms", roomId);
+
+    return runTransaction(db, async (tx) => {
+      const snap = await tx.get(roomRef);
+      if (!snap.exists()) return false;
 
-    const { first, second, third } = getTop3();
+      const room = snap.data() as RoomData;
+      if (room.status !== "voting") return false;
 
-    await addDoc(collection(db, "vote_results"), {
-      roomId,
-      topic: roomData.topic ?? "",
-      first,
-      second,
-      third,
-      votedAt: serverTimestamp(),
+      tx.update(roomRef, {
+        status: "revealed",
+        timerStartedAt: null,
+        timerDurationSec: null,
+        timerKind: null,
+        lastResultId: saveVoteResult(tx, room),
+      });
+      return true;
     });
   };
 
-  // ルームデータの購読
+  // ルームデータの購読（読み取りにはログインが必要）
   useEffect(() => {
-    if (!roomId) return;
+    if (!roomId || !participantId) return;
 
     const roomRef = doc(db, "rooms", roomId);
 
-    const unsubscribe = onSnapshot(roomRef, (snapshot) => {
-      if (!snapshot.exists()) {
-        alert("ルームが見つかりませんでした");
-        router.push(withName("/", userName));
-        return;
-      }
+    const unsubscribe = onSnapshot(
+      roomRef,
+      (snapshot) => {
+        if (!snapshot.exists()) {
+          alert(t("room.alert.notFound"));
+          router.push(withName("/", userName));
+          return;
+        }
 
-      const data = snapshot.data() as RoomData;
-      setRoomData(data);
-    });
+        // 書き込み直後の serverTimestamp は端末の推定値で扱う
+        const data = snapshot.data({
+          serverTimestamps: "estimate",
+        }) as RoomData;
+        setRoomData(data);
+      },
+      (err) => {
+        // 他のワークスペースのルームは読み取れない
+        if (err.code === "permission-denied") {
+          alert(t("room.alert.noAccess"));
+          router.push(withName("/", userName));
+          return;
+        }
+        console.error("Error subscribing room:", err);
+      }
+    );
 
     return () => unsubscribe();
-  }, [roomId, router]);
+  }, [roomId, participantId, router, t]);
 
+  const endedReason = roomData?.endedReason ?? null;
+  const shouldCleanup = !!roomData && needsCleanup(roomData);
   useEffect(() => {
+    // 終了したルームの片付けが済んでいなければ行う（ホストが終了した場合・片付けが失敗していた場合）
+    if (shouldCleanup) {
+      cleanupRoom(roomId).catch((err) => {
+        console.error("Error cleaning up room:", err);
+      });
+    }
     if (roomData?.status === "ended") {
       alert(
-        `このテーマはホストにより終了されました。\nルーム指定画面に戻ります。\n\nルームID：${roomId}`
+        endedReason === "idle"
+          ? t("room.alert.endedIdle", { roomId })
+          : t("room.alert.ended", { roomId })
       );
       router.push(withName("/", userName));
     }
-  }, [roomData?.status, router]);
+  }, [roomData?.status, endedReason, shouldCleanup, router, t]);
 
-  // 参加者コレクションの購読
+  // 在席中は一定間隔でルームの活動時刻を更新する（放置されたルームの自動終了の判定に使う）
+  // 期限を過ぎたまま開いたルームは、更新せずに終了する
+  const lastActivityMs = roomData ? getLastActivityMs(roomData) : null;
+  const expiresAtMs = roomData ? getRoomExpiresAtMs(roomData) : null;
+  const isEnded = roomData?.status === "ended";
   useEffect(() => {
-    if (!roomId) return;
+    if (!roomId || !isParticipantReady || isEnded) return;
+
+    if (expiresAtMs != null && expiresAtMs <= Date.now()) {
+      expireRoom(roomId).catch((err) => {
+        console.error("Error expiring room:", err);
+      });
+      return;
+    }
+
+    const delay = Math.max(
+      0,
+      (lastActivityMs ?? 0) + ROOM_EXPIRY_CONFIG.ACTIVITY_INTERVAL_MS - Date.now()
+    );
+    const timer = setTimeout(() => {
+      updateDoc(doc(db, "rooms", roomId), {
+        lastActivityAt: serverTimestamp(),
+      }).catch((err) => {
+        console.error("Error updating room activity:", err);
+      });
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [roomId, isParticipantReady, isEnded, lastActivityMs, expiresAtMs]);
+
+  // ホスト復帰コードのないルームのホストになったら（ホストを譲られた場合など）、新しいコードを作る
+  // コードはこの端末にだけ残し、ハッシュは読み取れない secrets/hostClaim に保存する
+  const needsClaimCode =
+    isHost && isParticipantReady && !!roomData && !roomData.hasHostClaim && !isEnded;
+  useEffect(() => {
+    if (!roomId || !needsClaimCode || isCreatingClaimRef.current) return;
+
+    isCreatingClaimRef.current = true;
+    const code = generateClaimCode();
+    hashClaimCode(code)
+      .then((hash) => {
+        const batch = writeBatch(db);
+        batch.set(doc(db, "rooms", roomId, "secrets", "hostClaim"), { hash });
+        // 旧ルームでルームに保存していたハッシュは消す
+        batch.update(doc(db, "rooms", roomId), {
+          hasHostClaim: true,
+          hostClaimHash: deleteField(),
+        });
+        return batch.commit();
+      })
+      .then(() => {
+        setClaimCode(roomId, code);
+        setClaimCodeState(code);
+        setShowClaimCode(false);
+      })
+      .catch((err) => {
+        console.error("Error creating host claim code:", err);
+      })
+      .finally(() => {
+        isCreatingClaimRef.current = false;
+      });
+  }, [roomId, needsClaimCode]);
+
+  // ホストに退出させられた場合はホームに戻る
+  // （参加し直す前の古い一覧で誤って戻らないよう、一度参加を確認できた後だけ）
+  const isRemoved = !!roomData?.removedParticipantIds?.includes(participantId);
+  useEffect(() => {
+    if (!isRemoved || !hasJoinedRef.current || isRemovedRef.current) return;
+
+    isRemovedRef.current = true;
+    alert(t("room.alert.removed", { roomId }));
+    router.push(withName("/", userName));
+  }, [isRemoved, roomId, router, userName, t]);
+
+  // 参加者コレクションの購読（パスコードのあるルームは参加者しか読めないため参加後）
+  useEffect(() => {
+    if (!roomId || !participantId || !isParticipantReady) return;
 
     const participantsRef = collection(db, "rooms", roomId, "participants");
 
@@ -194,6 +472,17 @@ export default function RoomClient() {
         const lastSeenAt = data.lastSeenAt as Timestamp | null;
         const online = data.online === true;
 
+        // 自分の heartbeat がサーバーに届いた時刻から端末時計とのずれを推定
+        if (
+          participantDoc.id === participantId &&
+          lastSeenAt &&
+          !participantDoc.metadata.hasPendingWrites &&
+          lastSeenAt.toMillis() !== lastSeenMsRef.current
+        ) {
+          lastSeenMsRef.current = lastSeenAt.toMillis();
+          setServerTimeOffset(lastSeenAt.toMillis() - now);
+        }
+
         // オフライン判定: online が false または lastSeenAt が 30秒以上前
         let isOnline = online;
         if (lastSeenAt) {
@@ -210,8 +499,10 @@ export default function RoomClient() {
           participantId: participantDoc.id,
           name: data.name,
           selectedCard: data.selectedCard,
+          role: data.role === "observer" ? "observer" : "voter",
           online: isOnline,
           lastSeenAt,
+          comment: data.comment ?? "",
         });
       });
 
@@ -222,12 +513,18 @@ export default function RoomClient() {
         (p) => p.participantId === participantId
       );
       if (myParticipant) {
+        hasJoinedRef.current = true;
         setSelectedCard(myParticipant.selectedCard);
+        // 入力中の値を他の参加者の更新で上書きしないよう、保存値が変わったときだけ反映
+        if (savedCommentRef.current !== myParticipant.comment) {
+          savedCommentRef.current = myParticipant.comment;
+          setComment(myParticipant.comment);
+        }
       }
     });
 
     return () => unsubscribe();
-  }, [roomId, participantId]);
+  }, [roomId, participantId, isParticipantReady]);
 
   // 参加者の追加（まだ存在しない場合）とオンライン状態の設定
   useEffect(() => {
@@ -240,32 +537,107 @@ export default function RoomClient() {
       "participants",
       participantId
     );
-    participantRefRef.current = participantRef;
 
-    // 参加者が存在するか確認して追加/更新
+    // 参加者が存在するか確認して追加/更新（参加できなかった場合は false）
     const checkAndAdd = async () => {
+      // 終了したルームには参加しない（片付けで削除した参加者を作り直さないため）
+      // ホームへ戻るのはルームの購読側で行う
+      const roomSnap = await getDoc(doc(db, "rooms", roomId));
+      const room = roomSnap.data() as RoomData | undefined;
+      if (room?.status === "ended") return false;
+
       const snap = await getDoc(participantRef);
       if (!snap.exists()) {
-        await setDoc(participantRef, {
+        // パスコードが必要なルームでは、参加者を作成する前にパスコードを確認する
+        // パスコードは本人しか読めない passcodeClaims に書き込み、ルールでハッシュと照合する
+        // 入力のたびに attempts を増やし、MAX_ATTEMPTS 回を超えたら書き込めない
+        const needsPasscode =
+          !!room?.hasPasscode && room.hostId !== participantId;
+        if (needsPasscode) {
+          const claimRef = doc(
+            db,
+            "rooms",
+            roomId,
+            "passcodeClaims",
+            participantId
+          );
+          const attempts: number =
+            (await getDoc(claimRef)).data()?.attempts ?? 0;
+          if (attempts >= PASSCODE_CONFIG.MAX_ATTEMPTS) {
+            alert(t("room.alert.passcodeLocked"));
+            router.push(withName("/", userName));
+            return false;
+          }
+          const passcode =
+            window
+              .prompt(
+                t("room.prompt.passcode", {
+                  count: PASSCODE_CONFIG.MAX_ATTEMPTS - attempts,
+                })
+              )
+              ?.trim() ?? "";
+          if (!passcode) {
+            router.push(withName("/", userName));
+            return false;
+          }
+          await setDoc(claimRef, {
+            code: passcode.toUpperCase(),
+            attempts: attempts + 1,
+            claimedAt: serverTimestamp(),
+          });
+        }
+
+        // 以前に退出させられていても、参加し直した場合は対象から外す
+        const batch = writeBatch(db);
+        batch.set(participantRef, {
           name: userName,
           selectedCard: null,
+          role: roleFromQuery ?? "voter",
           online: true,
           lastSeenAt: serverTimestamp(),
           updatedAt: serverTimestamp(),
         });
+        // 終了後の片付けのため、参加したことのある ID を記録する
+        batch.update(doc(db, "rooms", roomId), {
+          removedParticipantIds: arrayRemove(participantId),
+          joinedIds: arrayUnion(participantId),
+        });
+        try {
+          await batch.commit();
+        } catch (err) {
+          if (
+            needsPasscode &&
+            (err as FirestoreError).code === "permission-denied"
+          ) {
+            alert(t("room.alert.wrongPasscode"));
+            router.push(withName("/", userName));
+            return false;
+          }
+          throw err;
+        }
       } else {
         // 既存の参加者の場合、オンライン状態を更新
         await updateDoc(participantRef, {
           online: true,
           lastSeenAt: serverTimestamp(),
+          ...(roleFromQuery && { role: roleFromQuery }),
+          ...(roleFromQuery === "observer" && { selectedCard: null }),
         });
       }
+      return true;
     };
 
-    checkAndAdd().catch((err) => {
-      console.error("Error adding participant:", err);
-    });
-  }, [roomId, participantId, userName]);
+    checkAndAdd()
+      .then((joined) => {
+        if (!joined) return;
+        setIsParticipantReady(true);
+        // 次に招待リンクから開いたときの参加画面で使う
+        setLastUserName(userName);
+      })
+      .catch((err) => {
+        console.error("Error adding participant:", err);
+      });
+  }, [roomId, participantId, userName, roleFromQuery, router, t]);
 
   // Heartbeat: 定期的にオンライン状態を更新
   useEffect(() => {
@@ -331,9 +703,9 @@ export default function RoomClient() {
     };
   }, [roomId, participantId, updateOnlineStatus]);
 
-  const handleCardSelect = async (value: number) => {
+  const handleCardSelect = async (value: CardValue) => {
     if (!roomId || isSubmitting) return;
-    if (!isVoting) return;
+    if (!isVoting || isObserver) return;
 
     setIsSubmitting(true);
     try {
@@ -355,355 +727,1320 @@ export default function RoomClient() {
       setSelectedCard(newCard);
     } catch (err) {
       console.error("Error updating vote:", err);
-      alert("投票の更新に失敗しました");
+      alert(t("room.alert.voteFailed"));
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  // 投票締め切り処理
-  const handleReveal = async () => {
-    if (!roomId || !isHost) return;
+  // 判断の理由を保存（結果と一緒に記録される）
+  const handleSaveComment = async () => {
+    if (!roomId || !participantId) return;
+    const trimmed = comment.trim().slice(0, VOTE_CONFIG.COMMENT_MAX_LENGTH);
+    if (trimmed === (savedCommentRef.current ?? "")) return;
 
     try {
-      const roomRef = doc(db, "rooms", roomId);
-      await updateDoc(roomRef, {
-        status: "revealed",
+      await updateDoc(doc(db, "rooms", roomId, "participants", participantId), {
+        comment: trimmed,
+        updatedAt: serverTimestamp(),
       });
-      await saveVoteResult();
     } catch (err) {
-      console.error("Error revealing results:", err);
-      alert("結果の表示に失敗しました");
+      console.error("Error updating comment:", err);
+      alert(t("room.alert.commentFailed"));
     }
   };
 
-  const handleNextRound = async () => {
-    if (!roomId || !isHost) return;
+  // 投票者／観戦者の切り替え（観戦に切り替えたら投票は取り消す）
+  const handleChangeRole = async (role: ParticipantRole) => {
+    if (!roomId) return;
+
+    try {
+      await updateDoc(doc(db, "rooms", roomId, "participants", participantId), {
+        role,
+        ...(role === "observer" && { selectedCard: null }),
+        updatedAt: serverTimestamp(),
+      });
+    } catch (err) {
+      console.error("Error changing role:", err);
+      alert(t("room.alert.roleFailed"));
+    }
+  };
+
+  // 参加者を退出させる（ドキュメントを削除し、本人のクライアントに通知する）
+  const removeParticipants = async (ids: string[]) => {
+    const batch = writeBatch(db);
+    ids.forEach((id) => {
+      batch.delete(doc(db, "rooms", roomId, "participants", id));
+    });
+    batch.update(doc(db, "rooms", roomId), {
+      removedParticipantIds: arrayUnion(...ids),
+    });
+    await batch.commit();
+  };
+
+  const handleRemoveParticipant = async (target: Participant) => {
+    if (!roomId || !canModerate) return;
+    if (
+      target.participantId === participantId ||
+      target.participantId === roomData?.hostId
+    )
+      return;
+    if (!confirm(t("room.confirm.removeParticipant", { name: target.name })))
+      return;
+
+    try {
+      await removeParticipants([target.participantId]);
+    } catch (err) {
+      console.error("Error removing participant:", err);
+      alert(t("room.alert.removeParticipantFailed"));
+    }
+  };
 
-    if (!confirm("全員の投票をリセットして次のラウンドに進みますか？")) {
+  const handleRemoveOffline = async () => {
+    if (!roomId || !canModerate) return;
+
+    const offlineIds = participants
+      .filter(
+        (p) =>
+          !p.online &&
+          p.participantId !== participantId &&
+          p.participantId !== roomData?.hostId
+      )
+      .map((p) => p.participantId);
+    if (offlineIds.length === 0) return;
+    if (
+      !confirm(t("room.confirm.removeOffline", { count: offlineIds.length }))
+    )
       return;
+
+    try {
+      await removeParticipants(offlineIds);
+    } catch (err) {
+      console.error("Error removing offline participants:", err);
+      alert(t("room.alert.removeOfflineFailed"));
     }
+  };
+
+  const handleToggleExcludeOffline = async (enabled: boolean) => {
+    if (!roomId || !canModerate) return;
 
     try {
-      const roomRef = doc(db, "rooms", roomId);
-      const participantsRef = collection(db, "rooms", roomId, "participants");
+      await updateDoc(doc(db, "rooms", roomId), {
+        excludeOfflineVotes: enabled,
+      });
+    } catch (err) {
+      console.error("Error updating exclude offline:", err);
+      alert(t("room.alert.settingsFailed"));
+    }
+  };
 
-      // バッチ処理で全参加者のselectedCardをnullに更新
-      const snapshot = await getDocs(participantsRef);
-      const batch = writeBatch(db);
+  // ホストを譲る（元のホストは共同ホストとして残す）
+  // 元のホストの復帰コードは無効にし、新しいホストの端末で新しいコードを作る
+  const handleTransferHost = async (target: Participant) => {
+    if (!roomId || !isHost || !roomData) return;
+    if (!confirm(t("room.confirm.transferHost", { name: target.name }))) return;
 
-      batch.update(roomRef, {
-        status: "voting",
+    try {
+      const batch = writeBatch(db);
+      batch.delete(doc(db, "rooms", roomId, "secrets", "hostClaim"));
+      batch.update(doc(db, "rooms", roomId), {
+        hostId: target.participantId,
+        coHostIds: [
+          ...(roomData.coHostIds ?? []).filter(
+            (id) => id !== target.participantId && id !== roomData.hostId
+          ),
+          roomData.hostId,
+        ],
+        hasHostClaim: false,
       });
+      await batch.commit();
+    } catch (err) {
+      console.error("Error transferring host:", err);
+      alert(t("room.alert.transferHostFailed"));
+    }
+  };
 
-      snapshot.forEach((participantDoc) => {
-        batch.update(participantDoc.ref, {
-          selectedCard: null,
-          updatedAt: serverTimestamp(),
-        });
+  // 共同ホストの任命／解除
+  const handleToggleCoHost = async (target: Participant) => {
+    if (!roomId || !isHost || !roomData) return;
+
+    const isTargetCoHost = !!roomData.coHostIds?.includes(target.participantId);
+    try {
+      await updateDoc(doc(db, "rooms", roomId), {
+        coHostIds: isTargetCoHost
+          ? arrayRemove(target.participantId)
+          : arrayUnion(target.participantId),
       });
+    } catch (err) {
+      console.error("Error updating co-host:", err);
+      alert(t("room.alert.coHostFailed"));
+    }
+  };
+
+  // ホスト復帰コードでホストを取り戻す（端末が変わった場合など）
+  // コードは本人しか読めない hostClaims に書き込み、ルールで secrets/hostClaim のハッシュと照合する
+  const handleClaimHost = async () => {
+    if (!roomId || !roomData || isHost) return;
+
+    if (!roomData.hasHostClaim) {
+      alert(t("room.alert.noClaimCode"));
+      return;
+    }
 
+    const code = window.prompt(t("room.prompt.claimCode"));
+    if (!code?.trim()) return;
+
+    try {
+      const batch = writeBatch(db);
+      batch.set(doc(db, "rooms", roomId, "hostClaims", participantId), {
+        code: code.trim().toUpperCase(),
+        claimedAt: serverTimestamp(),
+      });
+      batch.update(doc(db, "rooms", roomId), {
+        hostId: participantId,
+        coHostIds: arrayRemove(participantId),
+      });
       await batch.commit();
-      setSelectedCard(null);
+      setClaimCode(roomId, code.trim().toUpperCase());
+      setClaimCodeState(code.trim().toUpperCase());
     } catch (err) {
-      console.error("Error resetting votes:", err);
-      alert("リセットに失敗しました");
+      // コードが違う場合はルールで拒否される
+      if ((err as FirestoreError).code === "permission-denied") {
+        alert(t("room.alert.wrongClaimCode"));
+        return;
+      }
+      console.error("Error claiming host:", err);
+      alert(t("room.alert.claimFailed"));
     }
   };
 
-  const CARD_VALUES = [1, 2, 3, 4, 5, 6, 7];
-  // 投票結果を集計する関数
-  const tallyVotes = (participants: { selectedCard: number | null }[]) => {
-    const counts: Record<number, number> = Object.fromEntries(
-      CARD_VALUES.map((v) => [v, 0])
-    ) as Record<number, number>;
+  // 投票締め切り処理
+  const handleReveal = async () => {
+    if (!roomId || !canModerate) return;
 
-    for (const p of participants) {
-      if (p.selectedCard != null)
-        counts[p.selectedCard] = (counts[p.selectedCard] ?? 0) + 1;
+    try {
+      await revealAndSave();
+    } catch (err) {
+      console.error("Error revealing results:", err);
+      alert(t("room.alert.revealFailed"));
     }
-    return counts;
   };
 
-  const counts = tallyVotes(participants);
+  // タイマー開始（終了時刻はサーバー側の開始時刻 + 秒数で決まる）
+  const handleStartTimer = async (durationSec: number) => {
+    if (!roomId || !canModerate) return;
+    if (
+      !Number.isInteger(durationSec) ||
+      durationSec <= 0 ||
+      durationSec > TIMER_CONFIG.MAX_DURATION_SEC
+    ) {
+      alert(t("room.alert.timerRange", { max: TIMER_CONFIG.MAX_DURATION_SEC }));
+      return;
+    }
 
-  // 投票数を順位付きでソート
-  const ranked = [...CARD_VALUES]
-    .map((v) => ({ value: v, count: counts[v] ?? 0 }))
-    .sort((a, b) => b.count - a.count);
-  const Crown = ({ rank }: { rank: number }) => {
-    if (rank === 1) return <span className="text-yellow-400 text-3xl">👑</span>;
-    if (rank === 2) return <span className="text-gray-400 text-2xl">🥈</span>;
-    if (rank === 3) return <span className="text-amber-700 text-2xl">🥉</span>;
-    return null;
+    try {
+      await updateDoc(doc(db, "rooms", roomId), {
+        timerStartedAt: serverTimestamp(),
+        timerDurationSec: durationSec,
+        timerKind: "manual",
+      });
+    } catch (err) {
+      console.error("Error starting timer:", err);
+      alert(t("room.alert.timerStartFailed"));
+    }
   };
 
-  // 同票対策：順位Map（value -> rank）
-  const rankMap = new Map<number, number>();
-  ranked.forEach((item, index) => {
-    if (!rankMap.has(item.value)) {
-      rankMap.set(item.value, index + 1);
+  // タイマー停止（全員投票による自動公開を止めた場合、このラウンドは再開しない）
+  const handleToggleAutoReveal = async (enabled: boolean) => {
+    if (!roomId || !canModerate) return;
+
+    try {
+      await updateDoc(doc(db, "rooms", roomId), { autoReveal: enabled });
+    } catch (err) {
+      console.error("Error updating auto reveal:", err);
+      alert(t("room.alert.settingsFailed"));
     }
-  });
+  };
 
-  // オンライン参加者のみフィルタリング（hideOffline が true の場合）
-  const visibleParticipants = hideOffline
-    ? participants.filter((p) => p.online) // チェックON → オンラインだけ
-    : participants;
+  // 全員投票時の自動公開の猶予を開始／取り消す
+  // どのクライアントから呼ばれてもトランザクションで1回だけ反映される
+  const syncAllVotedCountdown = async (allVoted: boolean) => {
+    const roomRef = doc(db, "rooms", roomId);
 
-  const notVotedCount = visibleParticipants.filter(
-    (p) => p.selectedCard === null
-  ).length;
+    await runTransaction(db, async (tx) => {
+      const snap = await tx.get(roomRef);
+      if (!snap.exists()) return;
 
-  if (!roomData) {
-    return (
-      <main className="min-h-screen p-8 bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
-          <p className="mt-4 text-gray-600">ルームを読み込み中...</p>
-        </div>
-      </main>
-    );
-  }
+      const room = snap.data() as RoomData;
+      if (room.status !== "voting") return;
 
-  // ルーム終了用関数
-  const handleEndRoom = async () => {
-    if (!roomId || !isHost) return;
+      if (allVoted) {
+        if (!room.autoReveal || room.timerKind === "allVoted") return;
+        if (room.autoRevealPausedRound === (room.round ?? 1)) return;
+        tx.update(roomRef, {
+          timerStartedAt: serverTimestamp(),
+          timerDurationSec: TIMER_CONFIG.ALL_VOTED_DELAY_SEC,
+          timerKind: "allVoted",
+        });
+      } else if (room.timerKind === "allVoted") {
+        tx.update(roomRef, {
+          timerStartedAt: null,
+          timerDurationSec: null,
+          timerKind: null,
+        });
+      }
+    });
+  };
 
-    const ok = window.confirm(
-      `このテーマを終了しますか？\n他の参加者も退室となります。\n\nルームID：${roomId}`
-    );
-    if (!ok) return;
+  const handleCancelTimer = async () => {
+    if (!roomId || !canModerate || !roomData) return;
 
     try {
       await updateDoc(doc(db, "rooms", roomId), {
-        status: "ended",
-        endedAt: serverTimestamp(),
+        timerStartedAt: null,
+        timerDurationSec: null,
+        timerKind: null,
+        ...(roomData.timerKind === "allVoted" && {
+          autoRevealPausedRound: roomData.round ?? 1,
+        }),
       });
     } catch (err) {
-      console.error("Error ending room:", err);
-      alert("ルーム終了に失敗しました");
+      console.error("Error cancelling timer:", err);
+      alert(t("room.alert.timerStopFailed"));
     }
   };
 
-  return (
-    <main className="min-h-screen bg-gradient-to-br from-slate-100 to-slate-200 px-6 md:px-8 pt-12 pb-10">
-      {/* 上部バー */}
-      <div className="max-w-4xl mx-auto mb-6 flex items-center justify-between">
-        {/* ルームID + コピー */}
-        <div className="flex items-center gap-2 rounded-xl border border-slate-300 bg-white px-4 py-2 shadow-sm">
-          <span className="text-sm text-slate-500">ルームID</span>
-          <span className="text-lg font-mono font-semibold text-slate-900">
-            {roomId}
-          </span>
+  // 発言順の開始（提案順を確定してルームに保存）
+  const handleStartSpeaking = async () => {
+    if (!roomId || !canModerate) return;
 
-          <button
-            type="button"
-            onClick={async () => {
-              await navigator.clipboard.writeText(roomId);
-              setCopied(true);
-              setTimeout(() => setCopied(false), 1500);
-            }}
-            className="ml-1 inline-flex items-center justify-center rounded-lg p-2 text-slate-500 hover:bg-slate-100 hover:text-slate-700 transition"
-            title="コピー"
-          >
-            {copied ? (
-              <Check size={18} className="text-emerald-600" />
-            ) : (
-              <Copy size={18} />
-            )}
-          </button>
-        </div>
+    const order = buildSpeakingOrder(countedVoters, deck);
+    try {
+      await updateDoc(doc(db, "rooms", roomId), {
+        speakingOrder: order,
+        currentSpeakerId: order[0] ?? null,
+      });
+    } catch (err) {
+      console.error("Error starting speaking order:", err);
+      alert(t("room.alert.speakingStartFailed"));
+    }
+  };
 
-        {/* 戻る */}
-        <button
-          onClick={() => router.push(withName("/", userName))}
-          className="
-            inline-flex items-center gap-2
-            rounded-xl border border-slate-300 bg-white
-            px-4 h-[44px]
-            text-sm font-medium text-slate-600
-            hover:bg-slate-50 hover:text-slate-800
-            transition
-          "
-        >
-          ＜ ルーム指定に戻る
-        </button>
-      </div>
+  // 発言者を前後に移動（最後の次は null = 終了、終了後の「前へ」は最後の人）
+  const handleMoveSpeaker = async (step: 1 | -1) => {
+    if (!roomId || !canModerate || !roomData) return;
+
+    const order = roomData.speakingOrder ?? [];
+    const index = order.indexOf(roomData.currentSpeakerId ?? "");
+    const nextIndex =
+      index === -1
+        ? step === 1
+          ? 0
+          : order.length - 1
+        : Math.max(0, index + step);
+    try {
+      await updateDoc(doc(db, "rooms", roomId), {
+        currentSpeakerId: order[nextIndex] ?? null,
+      });
+    } catch (err) {
+      console.error("Error moving speaker:", err);
+      alert(t("room.alert.speakerFailed"));
+    }
+  };
 
-      <div className="max-w-4xl mx-auto space-y-6">
-        {/* テーマ */}
-        <div className="rounded-xl border border-slate-300 bg-white p-6 shadow-sm">
-          <h1 className="text-2xl md:text-3xl font-bold text-slate-900 text-center tracking-tight">
-            {roomData?.topic ?? "（未設定）"}
-          </h1>
-        </div>
+  // 新しいラウンドを開始（全参加者の投票をリセットし、ルームの状態を更新）
+  // roomFields はトランザクション内で読んだ最新のルームから求める（null なら何もしない）
+  const commitNewRound = async (
+    roomFields: (room: RoomData) => Record<string, unknown> | null
+  ) => {
+    const roomRef = doc(db, "rooms", roomId);
+    const participantsRef = collection(db, "rooms", roomId, "participants");
 
-        {/* カード選択 */}
-        <div className="rounded-xl border border-slate-300 bg-white p-6 shadow-sm">
-          <h2 className="text-lg font-semibold text-slate-900 text-center">
-            権限レベルを選択してください
-          </h2>
+    // 全参加者のselectedCard・コメントをルームの更新と一緒にリセット
+    const snapshot = await getDocs(participantsRef);
 
-          {/* 状況メッセージ */}
-          {isVoting && selectedCard === null && (
-            <div className="mt-3 mb-6 rounded-lg border border-green-200 bg-green-50 px-4 py-3 text-center text-sm text-green-700 shadow-sm">
-              ● 投票を行ってください
-            </div>
-          )}
+    const committed = await runTransaction(db, async (tx) => {
+      const snap = await tx.get(roomRef);
+      if (!snap.exists()) return false;
 
-          {isVoting && selectedCard !== null && (
-            <div className="mt-3 mb-6 rounded-lg border border-blue-200 bg-blue-50 px-4 py-3 text-center text-sm text-blue-700 shadow-sm">
-              ● 投票の締め切りまでお待ちください
-            </div>
-          )}
+      const fields = roomFields(snap.data() as RoomData);
+      if (!fields) return false;
 
-          {isRevealed && (
-            <div className="mt-3 mb-6 rounded-lg border border-yellow-200 bg-yellow-50 px-4 py-3 text-center text-sm text-yellow-700 shadow-sm">
-              ● 投票は締め切られました
-            </div>
-          )}
+      tx.update(roomRef, {
+        status: "voting",
+        speakingOrder: [],
+        currentSpeakerId: null,
+        timerStartedAt: null,
+        timerDurationSec: null,
+        timerKind: null,
+        autoRevealPausedRound: null,
+        ...fields,
+      });
 
-          {(() => {
-            const LEVELS = [
-              { level: 1, title: "指示", description: "上司が決めて指示する" },
-              {
-                level: 2,
-                title: "説得",
-                description: "上司が決めて説明・説得する",
-              },
-              {
-                level: 3,
-                title: "相談",
-                description: "意見を聞いた上で上司が決める",
-              },
-              {
-                level: 4,
-                title: "合意",
-                description: "話し合って一緒に決める",
-              },
-              {
-                level: 5,
-                title: "助言",
-                description: "部下が決め、必要なら助言する",
-              },
-              {
-                level: 6,
-                title: "委任",
-                description: "部下が自由に決めて実行する",
-              },
-              {
-                level: 7,
-                title: "報告",
-                description: "部下が決め、事後報告のみ",
-              },
-            ];
-
-            return (
-              <>
-                {/* 説明 */}
-                <div className="mt-5 mb-7 rounded-xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm">
-                  <ul className="space-y-1">
-                    {LEVELS.map((l) => {
-                      const active = selectedCard === l.level;
-                      return (
-                        <li
-                          key={l.level}
-                          role="button"
-                          tabIndex={0}
-                          onClick={() => handleCardSelect(l.level)}
-                          onKeyDown={(e) => {
-                            if (e.key === "Enter" || e.key === " ")
-                              handleCardSelect(l.level);
-                          }}
-                          className={`
-                            flex gap-2 items-start rounded-lg px-2 py-1
-                            cursor-pointer select-none transition-colors
-                            ${active ? "bg-pink-100" : "hover:bg-slate-100"}
-                          `}
-                        >
-                          <span
-                            className={`font-semibold whitespace-nowrap ${
-                              active ? "text-pink-600" : "text-red-500"
-                            }`}
-                          >
-                            {l.level}
-                          </span>
-                          <span
-                            className={`font-semibold whitespace-nowrap ${
-                              active ? "text-pink-600" : "text-red-500"
-                            }`}
-                          >
-                            {l.title}
-                          </span>
-                          <span className="text-slate-600">
-                            ：{l.description}
-                          </span>
-                        </li>
-                      );
-                    })}
-                  </ul>
+      snapshot.forEach((participantDoc) => {
+        tx.update(participantDoc.ref, {
+          selectedCard: null,
+          comment: "",
+          updatedAt: serverTimestamp(),
+        });
+      });
+      return true;
+    });
+
+    if (!committed) return;
+    setSelectedCard(null);
+    setComment("");
+  };
+
+  const handleNextRound = async () => {
+    if (!roomId || !canModerate) return;
+
+    if (!confirm(t("room.confirm.nextRound"))) {
+      return;
+    }
+
+    try {
+      // 別のホスト・共同ホストが先に次のラウンドへ進めていたら何もしない
+      // round が未設定の旧ルームは 1 ラウンド目として数える
+      await commitNewRound((room) =>
+        room.status === "revealed" ? { round: (room.round ?? 1) + 1 } : null
+      );
+    } catch (err) {
+      console.error("Error resetting votes:", err);
+      alert(t("room.alert.resetFailed"));
+    }
+  };
+
+  // 決定の編集を開始（未記録なら単独1位のレベルを初期値にする）
+  const openDecisionEditor = () => {
+    const top = rankings[0];
+    setDecisionLevel(
+      currentDecision?.level ??
+        (top && top.values.length === 1 ? top.values[0] : null)
+    );
+    setDecisionOwner(currentDecision?.owner ?? "");
+    setDecisionNotes(currentDecision?.notes ?? "");
+    setDecisionReviewDate(
+      currentDecision ? currentDecision.reviewDate ?? "" : defaultReviewDate()
+    );
+    setIsEditingDecision(true);
+  };
+
+  // 決定を記録（このラウンドの結果に保存し、議題の合意レベルにも反映する）
+  const handleSaveDecision = async () => {
+    if (!roomId || !canModerate || !roomData?.lastResultId) return;
+    if (decisionLevel == null) {
+      alert(t("room.alert.decisionLevelRequired"));
+      return;
+    }
+
+    try {
+      const batch = writeBatch(db);
+      batch.update(doc(db, "vote_results", roomData.lastResultId), {
+        decision: {
+          level: decisionLevel,
+          notes: decisionNotes.trim(),
+          owner: decisionOwner.trim(),
+          reviewDate: decisionReviewDate || null,
+          decidedBy: participantId,
+          decidedAt: serverTimestamp(),
+        },
+      });
+      batch.update(doc(db, "rooms", roomId), {
+        agenda: agenda.map((item) =>
+          item.id === currentTopicId
+            ? { ...item, agreedLevel: decisionLevel }
+            : item
+        ),
+        currentTopicId,
+      });
+      await batch.commit();
+      setIsEditingDecision(false);
+    } catch (err) {
+      console.error("Error saving decision:", err);
+      alert(t("room.alert.decisionFailed"));
+    }
+  };
+
+  // 見直し日をカレンダー用の .ics でダウンロード
+  const handleDownloadReviewIcs = () => {
+    if (!roomId || !roomData?.lastResultId || !decision?.reviewDate) return;
+
+    const ics = buildReviewIcs(
+      [
+        {
+          id: roomData.lastResultId,
+          roomId,
+          topic: roomData.topic ?? "",
+          decision,
+        },
+      ],
+      window.location.origin,
+      locale
+    );
+    downloadFile(`review-${roomId}.ics`, ics, "text/calendar");
+  };
+
+  // このルームの全ラウンドの結果を書き出す
+  const handleExportRoomResults = async (format: "csv" | "json") => {
+    if (!roomId) return;
+
+    try {
+      const snap = await getDocs(
+        query(
+          collection(db, "vote_results"),
+          where("workspaceId", "==", roomData?.workspaceId ?? null),
+          where("roomId", "==", roomId)
+        )
+      );
+      const results = snap.docs
+        .map((d) => parseVoteResult(d.id, d.data()))
+        .sort(
+          (a, b) => (a.votedAt?.toMillis() ?? 0) - (b.votedAt?.toMillis() ?? 0)
+        );
+
+      if (format === "csv") {
+        downloadFile(
+          `vote-results-${roomId}.csv`,
+          toCsv(resultsToCsvRows(results)),
+          "text/csv"
+        );
+      } else {
+        downloadFile(
+          `vote-results-${roomId}.json`,
+          resultsToJson(results),
+          "application/json"
+        );
+      }
+    } catch (err) {
+      console.error("Error exporting room results:", err);
+      alert(t("common.exportResultsFailed"));
+    }
+  };
+
+  // 議題の更新（並べ替え・追加・削除）
+  const updateAgenda = async (nextAgenda: AgendaItem[]) => {
+    await updateDoc(doc(db, "rooms", roomId), {
+      agenda: nextAgenda,
+      currentTopicId: currentTopicId,
+    });
+  };
+
+  const handleAddTopic = async () => {
+    if (!roomId || !canModerate || !roomData) return;
+
+    const title = newTopic.trim();
+    if (!title) return;
+    if (title.length > AGENDA_CONFIG.TOPIC_MAX_LENGTH) {
+      alert(t("room.alert.topicTooLong", { max: AGENDA_CONFIG.TOPIC_MAX_LENGTH }));
+      return;
+    }
+
+    try {
+      await updateAgenda([...agenda, createAgendaItem(title)]);
+      setNewTopic("");
+    } catch (err) {
+      console.error("Error adding topic:", err);
+      alert(t("room.alert.addTopicFailed"));
+    }
+  };
+
+  // 貼り付けた議題を末尾にまとめて追加（既存の議題と重複するものは除く）
+  const handleImportTopics = async () => {
+    if (!roomId || !canModerate || !roomData || !topicImport) return;
+    if (topicImport.topics.length === 0) return;
+
+    try {
+      await updateAgenda([
+        ...agenda,
+        ...topicImport.topics.map(createAgendaItem),
+      ]);
+      setBulkTopicText(null);
+    } catch (err) {
+      console.error("Error importing topics:", err);
+      alert(t("room.alert.addTopicFailed"));
+    }
+  };
+
+  const handleMoveTopic = async (id: string, step: 1 | -1) => {
+    if (!roomId || !canModerate) return;
+
+    try {
+      await updateAgenda(moveAgendaItem(agenda, id, step));
+    } catch (err) {
+      console.error("Error moving topic:", err);
+      alert(t("room.alert.moveTopicFailed"));
+    }
+  };
+
+  const handleRemoveTopic = async (item: AgendaItem) => {
+    if (!roomId || !canModerate || item.id === currentTopicId) return;
+    if (!confirm(t("room.confirm.removeTopic", { title: item.title }))) return;
+
+    try {
+      await updateAgenda(agenda.filter((a) => a.id !== item.id));
+    } catch (err) {
+      console.error("Error removing topic:", err);
+      alert(t("room.alert.removeTopicFailed"));
+    }
+  };
+
+  // 議題を切り替える（参加者はそのまま、投票はリセットして新しいラウンドから）
+  const handleGoToTopic = async (item: AgendaItem) => {
+    if (!roomId || !canModerate || !roomData) return;
+    if (item.id === currentTopicId) return;
+    if (!confirm(t("room.confirm.goToTopic", { title: item.title }))) return;
+
+    // 今の議題の公開済みラウンドを記録してから切り替える
+    const currentRound = roomData.round ?? 1;
+    const completedRound = isRevealed ? currentRound : currentRound - 1;
+    const nextAgenda = agenda.map((a) =>
+      a.id === currentTopicId ? { ...a, round: completedRound } : a
+    );
+
+    try {
+      await commitNewRound(() => ({
+        agenda: nextAgenda,
+        currentTopicId: item.id,
+        topic: item.title,
+        round: item.round + 1,
+      }));
+    } catch (err) {
+      console.error("Error changing topic:", err);
+      alert(t("room.alert.goToTopicFailed"));
+    }
+  };
+
+  // 議題一覧と現在の議題
+  const agenda = roomData ? getAgenda(roomData) : [];
+  const currentTopicId = roomData ? getCurrentTopicId(roomData) : "";
+  const currentTopicIndex = agenda.findIndex((a) => a.id === currentTopicId);
+  const nextTopic =
+    currentTopicIndex >= 0 ? agenda[currentTopicIndex + 1] : undefined;
+  // まとめて追加する議題（既存の議題との重複を除く）
+  const topicImport =
+    bulkTopicText != null
+      ? parseTopicImport(
+          bulkTopicText,
+          agenda.map((item) => item.title)
+        )
+      : null;
+
+  // 投票者と観戦者（観戦者は集計・完了判定・発言順の対象外）
+  const voters = participants.filter((p) => p.role !== "observer");
+  const observers = participants.filter((p) => p.role === "observer");
+  const isObserver = observers.some((p) => p.participantId === participantId);
+
+  // 集計対象の投票者（設定によりオフラインの人を除く）
+  const countedVoters = roomData?.excludeOfflineVotes
+    ? voters.filter((p) => p.online)
+    : voters;
+  const offlineCount = participants.filter((p) => !p.online).length;
+
+  // 自分と同じ名前の参加者がいるか（大文字・小文字と前後の空白は区別しない）
+  const myName =
+    participants.find((p) => p.participantId === participantId)?.name ?? "";
+  const hasDuplicateName =
+    !!myName &&
+    participants.some(
+      (p) =>
+        p.participantId !== participantId &&
+        normalizeUserName(p.name) === normalizeUserName(myName)
+    );
+
+  // ルームのデッキで集計（追加カードは票数・統計・順位に含めない、名称は表示する言語）
+  const deck = localizeDeck(getDeck(roomData), locale);
+  const counts = tallyVotes(countedVoters, deck);
+  const extraCounts = tallyExtraCards(countedVoters, deck);
+  const stats = computeVoteStats(counts, deck);
+
+  // 投票数で順位付け（同票は同順位）
+  const rankings = rankVotes(counts, deck);
+  const topGroup = rankings[0];
+  const isTopTie = !!topGroup && topGroup.values.length > 1;
+  const Crown = ({ rank }: { rank: number }) => {
+    if (rank === 1) return <span className="text-yellow-400 text-3xl">👑</span>;
+    if (rank === 2) return <span className="text-gray-400 text-2xl">🥈</span>;
+    if (rank === 3) return <span className="text-amber-700 text-2xl">🥉</span>;
+    return null;
+  };
+
+  // 順位Map（value -> 所属する順位グループ）
+  const rankMap = new Map<number, RankGroup>();
+  rankings.forEach((group) => {
+    group.values.forEach((v) => rankMap.set(v, group));
+  });
+
+  // タイマー：終了時刻（サーバー時刻）と残り時間
+  const timerEndsAtMs =
+    isVoting && roomData?.timerStartedAt && roomData.timerDurationSec
+      ? roomData.timerStartedAt.toMillis() + roomData.timerDurationSec * 1000
+      : null;
+  const remainingMs =
+    timerEndsAtMs != null ? timerEndsAtMs - (now + serverTimeOffset) : null;
+
+  // タイマー動作中は表示を更新
+  useEffect(() => {
+    if (timerEndsAtMs == null) return;
+
+    const id = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(id);
+  }, [timerEndsAtMs]);
+
+  // 時間切れで自動公開（ホストが不在でも公開されるよう、他の参加者は少し遅れて試みる）
+  useEffect(() => {
+    if (timerEndsAtMs == null || remainingMs == null) return;
+    if (autoRevealTimerRef.current === timerEndsAtMs) return;
+
+    const graceMs = canModerate ? 0 : TIMER_CONFIG.AUTO_REVEAL_GRACE_MS;
+    if (remainingMs > -graceMs) return;
+
+    autoRevealTimerRef.current = timerEndsAtMs;
+    revealAndSave().catch((err) => {
+      // 時計のずれでルール上まだ締め切り前と判定された場合などは次の更新で再試行
+      console.error("Error auto revealing results:", err);
+      autoRevealTimerRef.current = null;
+    });
+  });
+
+  // 発言順：開始済みならルームに保存された順、未開始なら提案順
+  const savedSpeakingOrder = roomData?.speakingOrder ?? [];
+  const isSpeakingStarted = savedSpeakingOrder.length > 0;
+  const speakingOrder = isSpeakingStarted
+    ? savedSpeakingOrder
+    : buildSpeakingOrder(countedVoters, deck);
+  const currentSpeakerId = roomData?.currentSpeakerId ?? null;
+  const nameOf = (id: string) =>
+    participants.find((p) => p.participantId === id)?.name ??
+    t("room.leftParticipant");
+
+  // 最小・最大のカードを出した人（全員同じ場合は無し）
+  const hasOutliers = isRevealed && !!stats && stats.min !== stats.max;
+
+  // オンライン参加者のみフィルタリング（hideOffline が true の場合）
+  const visibleParticipants = hideOffline
+    ? voters.filter((p) => p.online) // チェックON → オンラインだけ
+    : voters;
+
+  const notVotedCount = visibleParticipants.filter(
+    (p) => p.selectedCard === null
+  ).length;
+
+  // オンラインの全員が投票済みか
+  const onlineVoters = voters.filter((p) => p.online);
+  const allOnlineVoted =
+    onlineVoters.length > 0 &&
+    onlineVoters.every((p) => p.selectedCard !== null);
+  const isAllVotedCountdown = roomData?.timerKind === "allVoted";
+
+  // 公開中のラウンドに記録された決定を購読
+  const lastResultId = isRevealed ? roomData?.lastResultId ?? null : null;
+  useEffect(() => {
+    if (!lastResultId) return;
+
+    const unsub = onSnapshot(
+      doc(db, "vote_results", lastResultId),
+      (snap) => {
+        setCurrentDecision((snap.data()?.decision as Decision) ?? null);
+      },
+      (err) => {
+        console.error("Error subscribing decision:", err);
+      }
+    );
+
+    return () => unsub();
+  }, [lastResultId]);
+  const decision = lastResultId ? currentDecision : null;
+
+  // 全員投票で自動公開の猶予を開始し、誰かが取り消したら猶予を止める
+  useEffect(() => {
+    if (!isVoting || !roomData?.autoReveal) return;
+
+    const round = roomData.round ?? 1;
+    if (allOnlineVoted) {
+      if (isAllVotedCountdown || roomData.autoRevealPausedRound === round)
+        return;
+    } else if (!isAllVotedCountdown) {
+      return;
+    }
+
+    // 同じ状態での重複した書き込みを避ける
+    const syncKey = `${round}:${allOnlineVoted}`;
+    if (allVotedSyncRef.current === syncKey) return;
+    allVotedSyncRef.current = syncKey;
+
+    syncAllVotedCountdown(allOnlineVoted).catch((err) => {
+      console.error("Error syncing auto reveal:", err);
+    });
+  });
+
+  if (!roomData) {
+    return (
+      <main className="min-h-screen p-8 bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">{t("room.loading")}</p>
+        </div>
+      </main>
+    );
+  }
+
+  // 招待リンク（名前なし）とQRコードを表示する。開いた人は参加画面で名前を入力する
+  const handleOpenInvite = async () => {
+    const url = `${window.location.origin}/room/${roomId}`;
+    setInviteUrl(url);
+    setInviteQr("");
+    try {
+      setInviteQr(await QRCode.toDataURL(url, { width: 240, margin: 1 }));
+    } catch (err) {
+      console.error("Error generating QR code:", err);
+    }
+  };
+
+  const handleCopyInvite = async () => {
+    if (!inviteUrl) return;
+    await navigator.clipboard.writeText(inviteUrl);
+    setIsInviteCopied(true);
+    setTimeout(() => setIsInviteCopied(false), 1500);
+  };
+
+  // 同じ名前の参加者がいる場合は名前を変えられるようにする
+  const handleRename = async () => {
+    const name = window.prompt(t("room.prompt.rename"), myName)?.trim();
+    if (!name || name === myName) return;
+
+    try {
+      await updateDoc(doc(db, "rooms", roomId, "participants", participantId), {
+        name: name.slice(0, 20),
+        updatedAt: serverTimestamp(),
+      });
+      setLastUserName(name.slice(0, 20));
+      router.replace(withName(`/room/${roomId}`, name.slice(0, 20)));
+    } catch (err) {
+      console.error("Error renaming participant:", err);
+      alert(t("room.alert.renameFailed"));
+    }
+  };
+
+  // ルーム終了用関数
+  const handleEndRoom = async () => {
+    if (!roomId || !canModerate) return;
+
+    const ok = window.confirm(t("room.confirm.endRoom", { roomId }));
+    if (!ok) return;
+
+    try {
+      await updateDoc(doc(db, "rooms", roomId), {
+        status: "ended",
+        endedAt: serverTimestamp(),
+      });
+    } catch (err) {
+      console.error("Error ending room:", err);
+      alert(t("room.alert.endRoomFailed"));
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-100 to-slate-200 px-6 md:px-8 pt-12 pb-10">
+      {/* 上部バー */}
+      <div className="max-w-4xl mx-auto mb-6 flex items-center justify-between">
+        {/* ルームID + コピー */}
+        <div className="flex items-center gap-2 rounded-xl border border-slate-300 bg-white px-4 py-2 shadow-sm">
+          <span className="text-sm text-slate-500">{t("common.roomId")}</span>
+          <span className="text-lg font-mono font-semibold text-slate-900">
+            {roomId}
+          </span>
+
+          <button
+            type="button"
+            onClick={async () => {
+              await navigator.clipboard.writeText(roomId);
+              setCopied(true);
+              setTimeout(() => setCopied(false), 1500);
+            }}
+            className="ml-1 inline-flex items-center justify-center rounded-lg p-2 text-slate-500 hover:bg-slate-100 hover:text-slate-700 transition"
+            title={t("room.copy")}
+          >
+            {copied ? (
+              <Check size={18} className="text-emerald-600" />
+            ) : (
+              <Copy size={18} />
+            )}
+          </button>
+          <button
+            type="button"
+            onClick={handleOpenInvite}
+            className="inline-flex items-center justify-center rounded-lg p-2 text-slate-500 hover:bg-slate-100 hover:text-slate-700 transition"
+            title={t("room.invite")}
+          >
+            <QrCode size={18} />
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          {/* デリゲーションボード */}
+          <button
+            onClick={() => router.push(`/room/${roomId}/board`)}
+            className="
+              inline-flex items-center gap-2
+              rounded-xl border border-slate-300 bg-white
+              px-4 h-[44px]
+              text-sm font-medium text-slate-600
+              hover:bg-slate-50 hover:text-slate-800
+              transition
+            "
+          >
+            {t("room.board")}
+          </button>
+
+          {/* 戻る */}
+          <button
+            onClick={() => router.push(withName("/", userName))}
+            className="
+              inline-flex items-center gap-2
+              rounded-xl border border-slate-300 bg-white
+              px-4 h-[44px]
+              text-sm font-medium text-slate-600
+              hover:bg-slate-50 hover:text-slate-800
+              transition
+            "
+          >
+            {t("room.backToRooms")}
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* 同じ名前の参加者がいる */}
+        {hasDuplicateName && (
+          <div className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            <span>{t("room.duplicateName", { name: myName })}</span>
+            <button
+              type="button"
+              onClick={handleRename}
+              className="rounded-lg border border-amber-300 bg-white px-3 h-[36px] font-medium hover:bg-amber-100 transition"
+            >
+              {t("room.rename")}
+            </button>
+          </div>
+        )}
+
+        {/* テーマ */}
+        <div className="rounded-xl border border-slate-300 bg-white p-6 shadow-sm">
+          {agenda.length > 1 && (
+            <div className="mb-2 text-center text-sm text-slate-500">
+              {t("room.agendaProgress", {
+                index: currentTopicIndex + 1,
+                total: agenda.length,
+              })}
+              {" ・ "}
+              {t("common.roundVote", { round: roomData.round ?? 1 })}
+            </div>
+          )}
+          <h1 className="text-2xl md:text-3xl font-bold text-slate-900 text-center tracking-tight">
+            {roomData?.topic ?? t("common.unset")}
+          </h1>
+        </div>
+
+        {/* 見直し：前回の結果（投票に影響しないよう公開後に表示） */}
+        {roomData.reviewOf && (
+          <div className="rounded-xl border border-emerald-300 bg-emerald-50 p-4 text-sm text-slate-700">
+            <div className="font-semibold text-emerald-800">
+              {t("room.reviewOfTitle", {
+                roomId: roomData.reviewOf.roomId,
+                date: roomData.reviewOf.reviewDate,
+              })}
+            </div>
+            {isRevealed ? (
+              <div className="mt-2 space-y-1">
+                <div>
+                  {t("room.reviewOfDecision", {
+                    level: roomData.reviewOf.level,
+                    title: findLevel(deck, roomData.reviewOf.level)?.title ?? "",
+                  })}
+                  {roomData.reviewOf.owner &&
+                    t("room.reviewOfOwner", { owner: roomData.reviewOf.owner })}
                 </div>
+                {roomData.reviewOf.rankings.length > 0 && (
+                  <div>
+                    {t("room.reviewOfRankings")}
+                    {roomData.reviewOf.rankings
+                      .map(
+                        (g) =>
+                          t("room.reviewOfRank", {
+                            rank: g.rank,
+                            levels: g.values.join(t("common.listSeparator")),
+                          }) +
+                          (g.count != null
+                            ? t("room.reviewOfRankCount", { count: g.count })
+                            : "")
+                      )
+                      .join(" / ")}
+                  </div>
+                )}
+                {roomData.reviewOf.notes && (
+                  <div className="whitespace-pre-wrap text-xs text-slate-600">
+                    {roomData.reviewOf.notes}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="mt-1 text-xs text-slate-500">
+                {t("room.reviewOfHidden")}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* 議題一覧（複数ある場合、または進行役が追加できる場合） */}
+        {(agenda.length > 1 || canModerate) && (
+          <div className="rounded-xl border border-slate-300 bg-white p-6 shadow-sm">
+            <h2 className="text-lg font-semibold text-slate-900 text-center mb-4">
+              {t("room.agenda")}
+            </h2>
 
-                {/* カード */}
-                <div className="grid grid-cols-7 gap-3">
-                  {CARD_VALUES.map((value) => {
-                    const meta = LEVELS.find((x) => x.level === value);
-                    const active = selectedCard === value;
+            <ol className="space-y-2">
+              {agenda.map((item, index) => {
+                const isCurrent = item.id === currentTopicId;
+                const rounds = isCurrent ? roomData.round ?? 1 : item.round;
 
-                    return (
-                      <button
-                        key={value}
-                        onClick={() => handleCardSelect(value)}
-                        disabled={isSubmitting}
-                        className={`
-                          group relative aspect-square rounded-xl font-bold transition-all
-                          border
-                          ${
-                            active
-                              ? "bg-pink-600/20 border-pink-300 text-slate-900 scale-[1.06] shadow-md"
-                              : "bg-white border-slate-200 text-slate-700 hover:bg-slate-50 hover:border-slate-300"
-                          }
-                          disabled:opacity-50 disabled:cursor-not-allowed
-                        `}
-                      >
-                        <div className="text-lg leading-none">{value}</div>
-                        <div
-                          className="mt-3 font-medium leading-none text-red-500"
-                          style={{ fontSize: "16px" }}
-                        >
-                          {meta?.title ?? ""}
-                        </div>
+                return (
+                  <li
+                    key={item.id}
+                    className={`flex items-center justify-between gap-2 rounded-xl border px-3 py-2 ${
+                      isCurrent
+                        ? "border-pink-300 bg-pink-50"
+                        : "border-slate-200 bg-white"
+                    }`}
+                  >
+                    <span className="min-w-0 text-slate-900">
+                      <span className="mr-2 font-semibold text-slate-500">
+                        {index + 1}.
+                      </span>
+                      <span className={isCurrent ? "font-semibold" : ""}>
+                        {item.title}
+                      </span>
+                      {isCurrent && (
+                        <span className="ml-2 text-xs text-pink-600">
+                          {t("room.topicVoting")}
+                        </span>
+                      )}
+                      {!isCurrent && rounds > 0 && (
+                        <span className="ml-2 text-xs text-slate-400">
+                          {t("room.topicRounds", { count: rounds })}
+                        </span>
+                      )}
+                    </span>
 
-                        <div
-                          className="pointer-events-none absolute left-1/2 top-full mt-2 -translate-x-1/2 hidden group-hover:block w-40 whitespace-normal break-words text-center rounded-md bg-slate-900 px-3 py-2 text-xs text-white leading-relaxed shadow-lg"
-                          style={{ fontSize: "14px" }}
+                    {canModerate && (
+                      <span className="flex shrink-0 items-center gap-1 text-sm">
+                        <button
+                          onClick={() => handleMoveTopic(item.id, -1)}
+                          disabled={index === 0}
+                          className="rounded px-2 py-1 text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+                          title={t("room.moveUp")}
                         >
-                          {meta?.description ?? ""}
-                          <div className="absolute left-1/2 bottom-full -translate-x-1/2 h-0 w-0 border-x-4 border-x-transparent border-b-4 border-b-slate-900" />
-                        </div>
-                      </button>
-                    );
-                  })}
+                          ↑
+                        </button>
+                        <button
+                          onClick={() => handleMoveTopic(item.id, 1)}
+                          disabled={index === agenda.length - 1}
+                          className="rounded px-2 py-1 text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+                          title={t("room.moveDown")}
+                        >
+                          ↓
+                        </button>
+                        {!isCurrent && (
+                          <>
+                            <button
+                              onClick={() => handleGoToTopic(item)}
+                              className="rounded px-2 py-1 text-pink-600 hover:bg-pink-50"
+                            >
+                              {t("room.goToTopic")}
+                            </button>
+                            <button
+                              onClick={() => handleRemoveTopic(item)}
+                              className="rounded p-1 text-slate-400 hover:bg-slate-100 hover:text-red-600"
+                              title={t("room.remove")}
+                            >
+                              <X size={16} />
+                            </button>
+                          </>
+                        )}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+
+            {canModerate && (
+              <div className="mt-4 flex gap-2">
+                <input
+                  value={newTopic}
+                  onChange={(e) => setNewTopic(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && !e.nativeEvent.isComposing)
+                      handleAddTopic();
+                  }}
+                  placeholder={t("room.addTopicPlaceholder")}
+                  maxLength={AGENDA_CONFIG.TOPIC_MAX_LENGTH}
+                  className="flex-1 h-[40px] px-3 border border-slate-300 rounded-lg"
+                />
+                <button
+                  onClick={handleAddTopic}
+                  disabled={!newTopic.trim()}
+                  className="rounded-lg border border-slate-300 bg-white px-4 h-[40px] text-sm text-slate-700 hover:bg-slate-50 transition disabled:opacity-50"
+                >
+                  {t("room.add")}
+                </button>
+                <button
+                  onClick={() =>
+                    setBulkTopicText(bulkTopicText == null ? "" : null)
+                  }
+                  className="rounded-lg border border-slate-300 bg-white px-4 h-[40px] text-sm text-slate-700 hover:bg-slate-50 transition"
+                >
+                  {t("room.bulkAdd")}
+                </button>
+              </div>
+            )}
+
+            {canModerate && bulkTopicText != null && topicImport && (
+              <div className="mt-3">
+                <textarea
+                  value={bulkTopicText}
+                  onChange={(e) => setBulkTopicText(e.target.value)}
+                  placeholder={t("import.placeholder")}
+                  rows={5}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                />
+                <TopicImportPreview result={topicImport} />
+                <div className="mt-2 flex justify-end">
+                  <button
+                    onClick={handleImportTopics}
+                    disabled={topicImport.topics.length === 0}
+                    className="rounded-lg bg-slate-800 px-4 h-[40px] text-sm font-semibold text-white hover:bg-slate-900 transition disabled:opacity-50"
+                  >
+                    {t("room.addToAgenda")}
+                  </button>
                 </div>
-              </>
-            );
-          })()}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* カード選択 */}
+        <div className="rounded-xl border border-slate-300 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-900 text-center">
+            {t("room.selectLevel")}
+          </h2>
+
+          {/* 状況メッセージ */}
+          {isObserver && (
+            <div className="mt-3 mb-6 rounded-lg border border-slate-200 bg-slate-50 px-4 py-3 text-center text-sm text-slate-600 shadow-sm">
+              {t("room.status.observing")}
+            </div>
+          )}
+
+          {isVoting && !isObserver && selectedCard === null && (
+            <div className="mt-3 mb-6 rounded-lg border border-green-200 bg-green-50 px-4 py-3 text-center text-sm text-green-700 shadow-sm">
+              {t("room.status.pleaseVote")}
+            </div>
+          )}
+
+          {isVoting && !isObserver && selectedCard !== null && (
+            <div className="mt-3 mb-6 rounded-lg border border-blue-200 bg-blue-50 px-4 py-3 text-center text-sm text-blue-700 shadow-sm">
+              {t("room.status.waiting")}
+            </div>
+          )}
+
+          {remainingMs != null && (
+            <div
+              className={`mt-3 mb-6 rounded-lg border px-4 py-3 text-center shadow-sm ${
+                remainingMs <= 10000
+                  ? "border-red-200 bg-red-50 text-red-700"
+                  : "border-slate-200 bg-slate-50 text-slate-700"
+              }`}
+            >
+              <span className="text-sm">
+                {isAllVotedCountdown
+                  ? t("room.status.allVotedCountdown")
+                  : t("room.status.countdown")}
+              </span>
+              <span className="text-2xl font-mono font-bold">
+                {formatRemaining(remainingMs)}
+              </span>
+            </div>
+          )}
+
+          {isRevealed && (
+            <div className="mt-3 mb-6 rounded-lg border border-yellow-200 bg-yellow-50 px-4 py-3 text-center text-sm text-yellow-700 shadow-sm">
+              {t("room.status.closed")}
+            </div>
+          )}
+
+          {/* 説明 */}
+          <div className="mt-5 mb-7 rounded-xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm">
+            <ul className="space-y-1">
+              {deck.levels.map((l) => {
+                const active = selectedCard === l.level;
+                return (
+                  <li
+                    key={l.level}
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => handleCardSelect(l.level)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" || e.key === " ")
+                        handleCardSelect(l.level);
+                    }}
+                    className={`
+                      flex gap-2 items-start rounded-lg px-2 py-1
+                      cursor-pointer select-none transition-colors
+                      ${active ? "bg-pink-100" : "hover:bg-slate-100"}
+                    `}
+                  >
+                    <span
+                      className={`font-semibold whitespace-nowrap ${
+                        active ? "text-pink-600" : "text-red-500"
+                      }`}
+                    >
+                      {l.level}
+                    </span>
+                    <span
+                      className={`font-semibold whitespace-nowrap ${
+                        active ? "text-pink-600" : "text-red-500"
+                      }`}
+                    >
+                      {l.title}
+                      {t("common.labelSeparator")}
+                    </span>
+                    <span className="text-slate-600">{l.description}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          {/* カード */}
+          <div
+            className="grid gap-3"
+            style={levelGridStyle(deck.levels.length)}
+          >
+            {deck.levels.map((meta) => {
+              const value = meta.level;
+              const active = selectedCard === value;
+
+              return (
+                <button
+                  key={value}
+                  onClick={() => handleCardSelect(value)}
+                  disabled={isSubmitting || isObserver}
+                  className={`
+                    group relative aspect-square rounded-xl font-bold transition-all
+                    border
+                    ${
+                      active
+                        ? "bg-pink-600/20 border-pink-300 text-slate-900 scale-[1.06] shadow-md"
+                        : "bg-white border-slate-200 text-slate-700 hover:bg-slate-50 hover:border-slate-300"
+                    }
+                    disabled:opacity-50 disabled:cursor-not-allowed
+                  `}
+                >
+                  <div className="text-lg leading-none">{value}</div>
+                  <div
+                    className="mt-3 font-medium leading-none text-red-500"
+                    style={{ fontSize: "16px" }}
+                  >
+                    {meta.title}
+                  </div>
+
+                  <div
+                    className="pointer-events-none absolute left-1/2 top-full mt-2 -translate-x-1/2 hidden group-hover:block w-40 whitespace-normal break-words text-center rounded-md bg-slate-900 px-3 py-2 text-xs text-white leading-relaxed shadow-lg"
+                    style={{ fontSize: "14px" }}
+                  >
+                    {meta.description}
+                    <div className="absolute left-1/2 bottom-full -translate-x-1/2 h-0 w-0 border-x-4 border-x-transparent border-b-4 border-b-slate-900" />
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* 追加カード（「?」など、集計の対象外） */}
+          {deck.extras.length > 0 && (
+            <div className="mt-4 flex flex-wrap justify-center gap-3">
+              {deck.extras.map((extra) => {
+                const active = selectedCard === extra.id;
+                return (
+                  <button
+                    key={extra.id}
+                    onClick={() => handleCardSelect(extra.id)}
+                    disabled={isSubmitting || isObserver}
+                    title={extra.description}
+                    className={`rounded-xl border px-4 h-[44px] text-sm font-semibold transition ${
+                      active
+                        ? "bg-pink-600/20 border-pink-300 text-slate-900"
+                        : "bg-white border-slate-200 text-slate-600 hover:bg-slate-50"
+                    } disabled:opacity-50 disabled:cursor-not-allowed`}
+                  >
+                    {extra.label}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {/* 判断の理由（任意、結果と一緒に記録される） */}
+          {isVoting && !isObserver && (
+            <div className="mt-5">
+              <label className="block text-sm text-slate-600 mb-1">
+                {t("room.comment")}
+              </label>
+              <input
+                type="text"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                onBlur={handleSaveComment}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleSaveComment();
+                }}
+                maxLength={VOTE_CONFIG.COMMENT_MAX_LENGTH}
+                placeholder={t("room.commentPlaceholder")}
+                className="w-full h-[40px] px-3 border border-slate-300 rounded-lg text-sm"
+              />
+              {roomData?.anonymous && (
+                <p className="mt-1 text-xs text-slate-500">
+                  {t("room.anonymousHint")}
+                </p>
+              )}
+            </div>
+          )}
         </div>
 
         {/* 参加者 */}
         <div className="rounded-xl border border-slate-300 bg-white p-6 shadow-sm">
           <h2 className="text-lg font-semibold text-slate-900 text-center mb-4">
-            参加者
+            {t("room.participants")}
           </h2>
 
-          <div className="mb-4 flex justify-end text-right text-slate-600">
+          <div className="mb-4 flex items-end justify-between text-right text-slate-600">
+            <button
+              onClick={() =>
+                handleChangeRole(isObserver ? "voter" : "observer")
+              }
+              className="rounded-lg border border-slate-300 bg-white px-3 h-[36px] text-sm text-slate-600 hover:bg-slate-50 transition"
+            >
+              {isObserver ? t("room.joinVoting") : t("room.switchToObserver")}
+            </button>
             <div>
               <div className="text-sm mr-2">
-                参加者：{visibleParticipants.length} 人
+                {t("room.participantCount", {
+                  count: visibleParticipants.length,
+                })}
               </div>
               <div className="text-xs text-slate-500">
-                （未投票：{notVotedCount} 人）
+                {t("room.notVotedCount", { count: notVotedCount })}
               </div>
             </div>
           </div>
@@ -711,55 +2048,149 @@ export default function RoomClient() {
           <div className="space-y-2">
             {visibleParticipants.length === 0 ? (
               <p className="text-slate-400 text-center py-4">
-                オンラインの参加者はいません
+                {t("room.noOnlineParticipants")}
               </p>
             ) : (
               visibleParticipants.map((participant, index) => {
                 const isMe = participant.participantId === participantId;
                 const hasVoted = participant.selectedCard !== null;
+                const isParticipantHost =
+                  participant.participantId === roomData.hostId;
+                const isParticipantCoHost = !!roomData.coHostIds?.includes(
+                  participant.participantId
+                );
+                const isExcluded =
+                  !!roomData.excludeOfflineVotes && !participant.online;
+
+                const isLowest =
+                  hasOutliers &&
+                  !isExcluded &&
+                  participant.selectedCard === stats.min;
+                const isHighest =
+                  hasOutliers &&
+                  !isExcluded &&
+                  participant.selectedCard === stats.max;
+                const isSpeaking =
+                  isRevealed && participant.participantId === currentSpeakerId;
 
                 const zebraBg = index % 2 === 0 ? "bg-slate-100" : "bg-white";
                 const offlineStyle = participant.online ? "" : "opacity-80";
+                const speakingStyle = isSpeaking
+                  ? "ring-2 ring-pink-400 border-pink-300"
+                  : "border-slate-200";
 
                 return (
                   <div
                     key={participant.participantId}
-                    className={`flex h-11 items-center justify-between px-3 rounded-xl border border-slate-200 ${zebraBg} ${offlineStyle}`}
+                    className={`flex h-11 items-center justify-between px-3 rounded-xl border ${speakingStyle} ${zebraBg} ${offlineStyle}`}
                   >
                     <span className="font-medium text-slate-900 flex items-center gap-2">
                       {participant.online ? (
-                        <span className="text-emerald-600" title="オンライン">
+                        <span
+                          className="text-emerald-600"
+                          title={t("common.online")}
+                        >
                           ●
                         </span>
                       ) : (
-                        <span className="text-slate-500" title="オフライン">
+                        <span
+                          className="text-slate-500"
+                          title={t("common.offline")}
+                        >
                           ○
                         </span>
                       )}
                       {participant.name}
                       {isMe && !isHost && (
                         <span className="ml-2 text-xs text-blue-600">
-                          (あなた)
+                          {t("room.you")}
                         </span>
                       )}
                       {isMe && isHost && (
                         <span className="ml-2 text-xs text-blue-600">
-                          (あなた・ホスト)
+                          {t("room.youHost")}
+                        </span>
+                      )}
+                      {!isMe && isParticipantHost && (
+                        <span className="text-xs text-amber-600">
+                          {t("room.host")}
+                        </span>
+                      )}
+                      {isParticipantCoHost && (
+                        <span className="text-xs text-amber-600">
+                          {t("room.coHost")}
+                        </span>
+                      )}
+                      {isLowest && (
+                        <span className="rounded bg-sky-100 px-1.5 text-xs text-sky-700">
+                          {t("stats.min")}
+                        </span>
+                      )}
+                      {isHighest && (
+                        <span className="rounded bg-rose-100 px-1.5 text-xs text-rose-700">
+                          {t("stats.max")}
+                        </span>
+                      )}
+                      {isSpeaking && (
+                        <span className="text-xs text-pink-600">
+                          {t("room.speaking")}
                         </span>
                       )}
                     </span>
 
-                    <span className="text-slate-600">
+                    <span className="text-slate-600 flex items-center gap-2">
+                      {hasVoted && isExcluded && (
+                        <span className="text-xs text-slate-400">
+                          {t("room.excluded")}
+                        </span>
+                      )}
                       {hasVoted ? (
                         isRevealed || isMe ? (
                           <span className="font-bold text-red-600 mr-1 text-lg">
-                            {participant.selectedCard}
+                            {cardLabel(deck, participant.selectedCard)}
                           </span>
                         ) : (
                           <span className="font-bold text-emerald-600">✓</span>
                         )
                       ) : (
-                        <span className="text-slate-400">未投票</span>
+                        <span className="text-slate-400">
+                          {t("common.notVoted")}
+                        </span>
+                      )}
+                      {isHost && !isMe && (
+                        <>
+                          <button
+                            onClick={() => handleToggleCoHost(participant)}
+                            className={`rounded p-1 hover:bg-slate-200 transition ${
+                              isParticipantCoHost
+                                ? "text-amber-600"
+                                : "text-slate-400 hover:text-amber-600"
+                            }`}
+                            title={
+                              isParticipantCoHost
+                                ? t("room.removeCoHost")
+                                : t("room.makeCoHost")
+                            }
+                          >
+                            <ShieldCheck size={16} />
+                          </button>
+                          <button
+                            onClick={() => handleTransferHost(participant)}
+                            className="rounded p-1 text-slate-400 hover:bg-slate-200 hover:text-amber-600 transition"
+                            title={t("room.transferHost")}
+                          >
+                            <CrownIcon size={16} />
+                          </button>
+                        </>
+                      )}
+                      {canModerate && !isMe && !isParticipantHost && (
+                        <button
+                          onClick={() => handleRemoveParticipant(participant)}
+                          className="rounded p-1 text-slate-400 hover:bg-slate-200 hover:text-red-600 transition"
+                          title={t("room.removeParticipant")}
+                        >
+                          <X size={16} />
+                        </button>
                       )}
                     </span>
                   </div>
@@ -767,33 +2198,86 @@ export default function RoomClient() {
               })
             )}
           </div>
+
+          {!isHost && roomData.hasHostClaim && (
+            <div className="mt-4 text-right">
+              <button
+                onClick={handleClaimHost}
+                className="text-xs text-slate-400 underline hover:text-slate-600"
+              >
+                {t("room.claimHostLink")}
+              </button>
+            </div>
+          )}
+
+          {/* 観戦者 */}
+          {observers.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-sm font-semibold text-slate-700 mb-2">
+                {t("room.observerCount", { count: observers.length })}
+              </h3>
+              <ul className="flex flex-wrap gap-2 text-sm">
+                {observers.map((o) => (
+                  <li
+                    key={o.participantId}
+                    className={`rounded-md bg-slate-100 px-2 py-1 text-slate-700 ${
+                      o.online ? "" : "opacity-60"
+                    }`}
+                  >
+                    {o.online ? "●" : "○"} {o.name}
+                    {o.participantId === participantId && (
+                      <span className="ml-1 text-xs text-blue-600">
+                        {t("room.you")}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
         {/* 結果 */}
         {isRevealed && (
           <div className="rounded-xl border border-slate-300 bg-white p-6 shadow-sm">
             <h2 className="text-lg font-semibold text-slate-900 text-center mb-4">
-              投票結果
+              {t("room.results")}
             </h2>
 
-            <div className="grid grid-cols-7 gap-3">
-              {CARD_VALUES.map((v) => {
-                const rank = rankMap.get(v);
+            {isTopTie && (
+              <div className="mb-4 rounded-lg border border-orange-200 bg-orange-50 px-4 py-3 text-center text-sm text-orange-700">
+                {t("room.topTie", {
+                  levels: topGroup.values.join(t("room.tieJoin")),
+                  count: topGroup.count ?? 0,
+                })}
+              </div>
+            )}
+
+            <div
+              className="grid gap-3"
+              style={levelGridStyle(deck.levels.length)}
+            >
+              {deck.levels.map(({ level: v }) => {
+                const group = rankMap.get(v);
+                const rank = group?.rank;
                 const voteCount = counts[v] ?? 0;
-                const showCrown = voteCount > 0 && rank && rank <= 3;
+                const showCrown = voteCount > 0 && !!rank && rank <= 3;
+                const isTie = !!group && group.values.length > 1;
 
                 return (
                   <div
                     key={v}
                     className={`rounded-xl p-3 text-center relative border ${
                       rank === 1 && voteCount > 0
-                        ? "bg-yellow-50 border-yellow-200"
+                        ? isTie
+                          ? "bg-orange-50 border-orange-200"
+                          : "bg-yellow-50 border-yellow-200"
                         : "bg-slate-50 border-slate-200"
                     }`}
                   >
                     {showCrown && (
                       <div className="absolute top-1 left-1">
-                        <Crown rank={rank!} />
+                        <Crown rank={rank} />
                       </div>
                     )}
 
@@ -802,23 +2286,388 @@ export default function RoomClient() {
                       className="text-sm text-red-500"
                       style={{ fontSize: "14px" }}
                     >
-                      {voteCount}票
+                      {t("common.voteCount", { count: voteCount })}
                     </div>
                     {showCrown && (
                       <div className="mt-1 text-xs text-slate-500">
-                        {rank}位
+                        {isTie
+                          ? t("room.rankTied", { rank })
+                          : t("room.rank", { rank })}
                       </div>
                     )}
                   </div>
                 );
               })}
             </div>
+
+            {deck.extras.some((e) => (extraCounts[e.id] ?? 0) > 0) && (
+              <div className="mt-3 flex flex-wrap justify-center gap-3 text-sm text-slate-600">
+                {deck.extras
+                  .filter((e) => (extraCounts[e.id] ?? 0) > 0)
+                  .map((e) => (
+                    <span
+                      key={e.id}
+                      className="rounded-lg bg-slate-50 border border-slate-200 px-3 py-1"
+                      title={e.description}
+                    >
+                      {t("common.extraCount", {
+                        label: e.label,
+                        count: extraCounts[e.id],
+                      })}
+                    </span>
+                  ))}
+              </div>
+            )}
+
+            {/* 統計 */}
+            {stats ? (
+              <div className="mt-6 rounded-xl border border-slate-200 bg-slate-50 p-4">
+                <div
+                  className={`mb-3 text-center text-sm font-semibold ${
+                    stats.consensus === "split"
+                      ? "text-orange-600"
+                      : "text-emerald-600"
+                  }`}
+                >
+                  {t("room.consensusScore", {
+                    label: t(`consensus.${stats.consensus}`),
+                    score: stats.consensusScore,
+                  })}
+                </div>
+                <dl className="grid grid-cols-3 md:grid-cols-6 gap-3 text-center">
+                  {[
+                    { label: t("stats.mean"), value: stats.mean },
+                    { label: t("stats.median"), value: stats.median },
+                    { label: t("stats.min"), value: stats.min },
+                    { label: t("stats.max"), value: stats.max },
+                    { label: t("stats.stdDev"), value: stats.stdDev },
+                    { label: t("stats.voteCount"), value: stats.voteCount },
+                  ].map((item) => (
+                    <div key={item.label}>
+                      <dt className="text-xs text-slate-500">{item.label}</dt>
+                      <dd className="text-lg font-bold text-slate-900">
+                        {item.value}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            ) : (
+              <p className="mt-6 text-center text-sm text-slate-400">
+                {t("room.noVotes")}
+              </p>
+            )}
+
+            {/* 決定 */}
+            {decision && !isEditingDecision && (
+              <div className="mt-6 rounded-xl border-2 border-emerald-300 bg-emerald-50 p-4">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="text-sm text-emerald-700">
+                      {t("common.decidedLevel")}
+                    </div>
+                    <div className="text-2xl font-bold text-emerald-800">
+                      {decision.level}{" "}
+                      {findLevel(deck, decision.level)?.title ?? ""}
+                    </div>
+                  </div>
+                  {canModerate && (
+                    <button
+                      onClick={openDecisionEditor}
+                      className="rounded-lg border border-emerald-300 bg-white px-3 h-[36px] text-sm text-emerald-700 hover:bg-emerald-100 transition"
+                    >
+                      {t("room.edit")}
+                    </button>
+                  )}
+                </div>
+                {decision.owner && (
+                  <div className="mt-2 text-sm text-slate-700">
+                    {t("common.owner", { owner: decision.owner })}
+                  </div>
+                )}
+                {decision.notes && (
+                  <div className="mt-1 whitespace-pre-wrap text-sm text-slate-700">
+                    {decision.notes}
+                  </div>
+                )}
+                {decision.reviewDate && (
+                  <div className="mt-2 flex items-center gap-2 text-sm text-slate-700">
+                    {t("common.reviewDate", { date: decision.reviewDate })}
+                    <button
+                      onClick={handleDownloadReviewIcs}
+                      className="text-xs text-emerald-700 underline hover:text-emerald-900"
+                    >
+                      {t("room.addToCalendar")}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {canModerate && lastResultId && !decision && !isEditingDecision && (
+              <div className="mt-6 text-center">
+                <button
+                  onClick={openDecisionEditor}
+                  className="rounded-lg bg-emerald-600 px-4 h-[40px] text-sm font-semibold text-white hover:bg-emerald-700 transition"
+                >
+                  {t("room.recordDiscussion")}
+                </button>
+              </div>
+            )}
+
+            {canModerate && isEditingDecision && (
+              <div className="mt-6 rounded-xl border border-emerald-300 p-4 space-y-3">
+                <h3 className="text-sm font-semibold text-slate-900">
+                  {t("room.recordDecision")}
+                </h3>
+                <div
+                  className="grid gap-2"
+                  style={levelGridStyle(deck.levels.length)}
+                >
+                  {deck.levels.map(({ level: v }) => (
+                    <button
+                      key={v}
+                      onClick={() => setDecisionLevel(v)}
+                      className={`rounded-lg border h-[40px] text-sm font-semibold transition ${
+                        decisionLevel === v
+                          ? "border-emerald-400 bg-emerald-100 text-emerald-800"
+                          : "border-slate-200 bg-white text-slate-700 hover:bg-slate-50"
+                      }`}
+                    >
+                      {v}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  value={decisionOwner}
+                  onChange={(e) => setDecisionOwner(e.target.value)}
+                  placeholder={t("room.ownerPlaceholder")}
+                  maxLength={50}
+                  className="w-full h-[40px] px-3 border border-slate-300 rounded-lg text-sm"
+                />
+                <textarea
+                  value={decisionNotes}
+                  onChange={(e) => setDecisionNotes(e.target.value)}
+                  placeholder={t("room.notesPlaceholder")}
+                  maxLength={1000}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                />
+                <label className="flex items-center gap-2 text-sm text-slate-700">
+                  {t("room.reviewDate")}
+                  <input
+                    type="date"
+                    value={decisionReviewDate}
+                    onChange={(e) => setDecisionReviewDate(e.target.value)}
+                    className="h-[40px] px-3 border border-slate-300 rounded-lg text-sm"
+                  />
+                  <span className="text-xs text-slate-500">
+                    {t("room.reviewDateHint")}
+                  </span>
+                </label>
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setIsEditingDecision(false)}
+                    className="rounded-lg border border-slate-300 bg-white px-4 h-[40px] text-sm text-slate-600 hover:bg-slate-50 transition"
+                  >
+                    {t("common.cancel")}
+                  </button>
+                  <button
+                    onClick={handleSaveDecision}
+                    disabled={decisionLevel == null}
+                    className="rounded-lg bg-emerald-600 px-4 h-[40px] text-sm font-semibold text-white hover:bg-emerald-700 transition disabled:opacity-50"
+                  >
+                    {t("room.save")}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* このルームの結果の書き出し */}
+            <div className="mt-4 flex justify-end gap-3 text-xs">
+              <span className="text-slate-500">
+                {t("room.exportRoomResults")}
+              </span>
+              <button
+                onClick={() => handleExportRoomResults("csv")}
+                className="text-slate-600 underline hover:text-slate-800"
+              >
+                CSV
+              </button>
+              <button
+                onClick={() => handleExportRoomResults("json")}
+                className="text-slate-600 underline hover:text-slate-800"
+              >
+                JSON
+              </button>
+            </div>
+
+            {/* 発言順（最小・最大の人から理由を話す） */}
+            {speakingOrder.length > 0 && (
+              <div className="mt-6 rounded-xl border border-slate-200 p-4">
+                <h3 className="text-sm font-semibold text-slate-900 text-center">
+                  {isSpeakingStarted
+                    ? t("room.speakingOrder")
+                    : t("room.suggestedSpeakingOrder")}
+                </h3>
+
+                {currentSpeakerId && (
+                  <div className="mt-3 rounded-lg border border-pink-200 bg-pink-50 px-4 py-2 text-center text-sm text-pink-700">
+                    {t("room.currentSpeaker")}
+                    <span className="font-semibold">
+                      {nameOf(currentSpeakerId)}
+                    </span>
+                  </div>
+                )}
+
+                <ol className="mt-3 flex flex-wrap justify-center gap-2 text-sm">
+                  {speakingOrder.map((id, i) => (
+                    <li
+                      key={id}
+                      className={`rounded-md px-2 py-1 ${
+                        id === currentSpeakerId
+                          ? "bg-pink-100 text-pink-700 font-semibold"
+                          : "bg-slate-100 text-slate-700"
+                      }`}
+                    >
+                      {i + 1}. {nameOf(id)}
+                    </li>
+                  ))}
+                </ol>
+
+                {canModerate && (
+                  <div className="mt-4 flex justify-center gap-2">
+                    {!isSpeakingStarted ? (
+                      <button
+                        onClick={handleStartSpeaking}
+                        className="rounded-lg bg-pink-600 px-4 h-[40px] text-sm font-semibold text-white hover:bg-pink-700 transition"
+                      >
+                        {t("room.startSpeaking")}
+                      </button>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => handleMoveSpeaker(-1)}
+                          className="rounded-lg border border-slate-300 bg-white px-4 h-[40px] text-sm text-slate-600 hover:bg-slate-50 transition"
+                        >
+                          {t("room.previousSpeaker")}
+                        </button>
+                        <button
+                          onClick={() => handleMoveSpeaker(1)}
+                          className="rounded-lg bg-pink-600 px-4 h-[40px] text-sm font-semibold text-white hover:bg-pink-700 transition"
+                        >
+                          {currentSpeakerId
+                            ? t("room.nextSpeaker")
+                            : t("room.firstSpeaker")}
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         )}
 
         {/* ホスト操作 */}
-        {isHost && (
+        {canModerate && (
           <div className="rounded-xl border border-slate-300 bg-white p-6 shadow-sm">
+            {/* ホスト復帰コード（別の端末からホストに戻るときに使う） */}
+            {isHost && claimCode && (
+              <div className="mb-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                {t("room.claimCode")}
+                {showClaimCode ? (
+                  <span className="font-mono font-semibold tracking-widest">
+                    {claimCode}
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => setShowClaimCode(true)}
+                    className="underline"
+                  >
+                    {t("room.showClaimCode")}
+                  </button>
+                )}
+                <div className="mt-1 text-xs text-amber-700">
+                  {t("room.claimCodeHint")}
+                </div>
+              </div>
+            )}
+
+            {/* 参加者の整理 */}
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2 text-sm text-slate-600">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={!!roomData.excludeOfflineVotes}
+                  onChange={(e) => handleToggleExcludeOffline(e.target.checked)}
+                />
+                {t("room.excludeOffline")}
+              </label>
+              <button
+                onClick={handleRemoveOffline}
+                disabled={offlineCount === 0}
+                className="rounded-lg border border-slate-300 bg-white px-3 h-[36px] text-slate-600 hover:bg-slate-50 transition disabled:opacity-50"
+              >
+                {t("room.removeOffline", { count: offlineCount })}
+              </button>
+            </div>
+
+            {/* 自動公開 */}
+            <label className="mb-4 flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={!!roomData.autoReveal}
+                onChange={(e) => handleToggleAutoReveal(e.target.checked)}
+              />
+              {t("room.autoReveal", { sec: TIMER_CONFIG.ALL_VOTED_DELAY_SEC })}
+            </label>
+
+            {/* タイマー */}
+            {isVoting && (
+              <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-slate-600">{t("room.timer")}</span>
+                {timerEndsAtMs == null ? (
+                  <>
+                    {TIMER_CONFIG.PRESETS_SEC.map((sec) => (
+                      <button
+                        key={sec}
+                        onClick={() => handleStartTimer(sec)}
+                        className="rounded-lg border border-slate-300 bg-white px-3 h-[36px] text-slate-700 hover:bg-slate-50 transition"
+                      >
+                        {t("room.seconds", { sec })}
+                      </button>
+                    ))}
+                    <input
+                      type="number"
+                      min={1}
+                      max={TIMER_CONFIG.MAX_DURATION_SEC}
+                      value={customTimerSec}
+                      onChange={(e) => setCustomTimerSec(e.target.value)}
+                      placeholder={t("room.secondsPlaceholder")}
+                      className="w-20 h-[36px] px-2 border border-slate-300 rounded-lg"
+                    />
+                    <button
+                      onClick={() => handleStartTimer(Number(customTimerSec))}
+                      disabled={!customTimerSec}
+                      className="rounded-lg border border-slate-300 bg-white px-3 h-[36px] text-slate-700 hover:bg-slate-50 transition disabled:opacity-50"
+                    >
+                      {t("room.start")}
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={handleCancelTimer}
+                    className="rounded-lg border border-slate-300 bg-white px-3 h-[36px] text-slate-700 hover:bg-slate-50 transition"
+                  >
+                    {isAllVotedCountdown
+                      ? t("room.cancelAutoReveal")
+                      : t("room.stopTimer")}
+                  </button>
+                )}
+              </div>
+            )}
+
             <div className="flex gap-3">
               {isVoting && (
                 <button
@@ -831,7 +2680,7 @@ export default function RoomClient() {
                     active:translate-y-0
                   "
                 >
-                  投票を締め切る
+                  {t("room.reveal")}
                 </button>
               )}
 
@@ -846,7 +2695,22 @@ export default function RoomClient() {
                     active:translate-y-0
                   "
                 >
-                  同じテーマで再投票
+                  {t("room.revote")}
+                </button>
+              )}
+
+              {isRevealed && nextTopic && (
+                <button
+                  onClick={() => handleGoToTopic(nextTopic)}
+                  className="
+                    flex-1 h-[52px] rounded-xl
+                    bg-pink-600 text-white font-semibold
+                    shadow-sm transition
+                    hover:bg-pink-700 hover:translate-y-[-1px]
+                    active:translate-y-0
+                  "
+                >
+                  {t("room.nextTopic")}
                 </button>
               )}
             </div>
@@ -864,13 +2728,61 @@ export default function RoomClient() {
                     transition
                   "
                 >
-                  ＜ このテーマを終了する
+                  {t("room.endRoom")}
                 </button>
               </div>
             )}
           </div>
         )}
       </div>
+
+      {/* 招待リンクとQRコード */}
+      {inviteUrl && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+          onClick={() => setInviteUrl(null)}
+        >
+          <div
+            className="w-full max-w-sm rounded-xl border border-slate-200 bg-white p-6 text-center"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h2 className="mb-4 text-base font-medium tracking-wide text-slate-800">
+              {t("room.invite")}
+            </h2>
+            {inviteQr ? (
+              // data URL のため画像の最適化は使わない
+              <Image
+                src={inviteQr}
+                alt={t("room.inviteQrAlt", { roomId })}
+                width={240}
+                height={240}
+                unoptimized
+                className="mx-auto"
+              />
+            ) : (
+              <div className="mx-auto h-[240px] w-[240px] animate-pulse rounded bg-slate-100" />
+            )}
+            <p className="mt-4 break-all text-sm text-slate-600">{inviteUrl}</p>
+            <p className="mt-1 text-xs text-slate-500">{t("room.inviteHint")}</p>
+            <div className="mt-4 flex justify-center gap-2">
+              <button
+                type="button"
+                onClick={handleCopyInvite}
+                className="rounded-lg bg-slate-800 px-4 h-[40px] text-sm font-semibold text-white hover:bg-slate-900 transition"
+              >
+                {isInviteCopied ? t("room.inviteCopied") : t("room.copyInvite")}
+              </button>
+              <button
+                type="button"
+                onClick={() => setInviteUrl(null)}
+                className="rounded-lg border border-slate-300 bg-white px-4 h-[40px] text-sm text-slate-600 hover:bg-slate-50 transition"
+              >
+                {t("common.close")}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </main>
   );
 }
@@ -0,0 +1,183 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { db } from "../../../../src/lib/firebase";
+import { useAuthUser } from "../../../../src/lib/auth";
+import { getAgenda, type AgendaItem } from "../../../../src/lib/agenda";
+import { getDeck, localizeDeck, type Deck } from "../../../../src/lib/deck";
+import {
+  boardToCsvRows,
+  buildBoardRows,
+  type BoardRow,
+} from "../../../../src/lib/board";
+import { downloadFile, toCsv } from "../../../../src/lib/export";
+import {
+  parseVoteResult,
+  type VoteResultEntry,
+} from "../../../../src/lib/votes";
+import DelegationBoardTable from "../../../board/DelegationBoardTable";
+import { useI18n } from "../../../I18nProvider";
+
+interface BoardRoomData {
+  workspaceId?: string;
+  hostId: string;
+  coHostIds?: string[];
+  topic?: string;
+  agenda?: AgendaItem[];
+  round?: number;
+  deck?: Deck;
+}
+
+export default function BoardClient() {
+  const params = useParams();
+  const router = useRouter();
+  const roomId = params.roomId as string;
+
+  const { locale, t } = useI18n();
+  const authUser = useAuthUser();
+  const [roomData, setRoomData] = useState<BoardRoomData | null>(null);
+  const [results, setResults] = useState<VoteResultEntry[]>([]);
+
+  const uid = authUser?.uid ?? "";
+  const canModerate =
+    !!uid &&
+    (roomData?.hostId === uid || !!roomData?.coHostIds?.includes(uid));
+
+  // ルームの購読
+  useEffect(() => {
+    if (!roomId || !authUser) return;
+
+    const unsub = onSnapshot(
+      doc(db, "rooms", roomId),
+      (snapshot) => {
+        if (snapshot.exists()) {
+          setRoomData(snapshot.data() as BoardRoomData);
+        }
+      },
+      (err) => {
+        console.error("Error subscribing room:", err);
+      }
+    );
+
+    return () => unsub();
+  }, [roomId, authUser]);
+
+  // このルームの投票結果の購読（ルームのワークスペースが分かってから）
+  const hasRoom = roomData != null;
+  const workspaceId = roomData?.workspaceId ?? null;
+  useEffect(() => {
+    if (!roomId || !authUser || !hasRoom) return;
+
+    const q = query(
+      collection(db, "vote_results"),
+      where("workspaceId", "==", workspaceId),
+      where("roomId", "==", roomId)
+    );
+    const unsub = onSnapshot(
+      q,
+      (snap) => {
+        setResults(snap.docs.map((d) => parseVoteResult(d.id, d.data())));
+      },
+      (err) => {
+        console.error("Error subscribing results:", err);
+      }
+    );
+
+    return () => unsub();
+  }, [roomId, authUser, hasRoom, workspaceId]);
+
+  const agenda = roomData ? getAgenda(roomData) : [];
+  const rows = buildBoardRows(roomId, agenda, results);
+  const levels = localizeDeck(getDeck(roomData), locale).levels;
+
+  // 合意レベルの確定（同じレベルをもう一度選ぶと解除）
+  const handleSelectLevel = async (row: BoardRow, level: number) => {
+    if (!canModerate) return;
+
+    const nextAgenda = agenda.map((item) =>
+      item.id === row.topicId
+        ? { ...item, agreedLevel: item.agreedLevel === level ? null : level }
+        : item
+    );
+
+    try {
+      await updateDoc(doc(db, "rooms", roomId), { agenda: nextAgenda });
+    } catch (err) {
+      console.error("Error updating agreed level:", err);
+      alert(t("board.updateFailed"));
+    }
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(
+      `delegation-board-${roomId}.csv`,
+      toCsv(boardToCsvRows(rows, levels)),
+      "text/csv"
+    );
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-100 to-slate-200 px-6 md:px-8 pt-12 pb-10 print:bg-white print:p-0">
+      <div className="max-w-5xl mx-auto mb-6 flex items-center justify-between print:hidden">
+        <button
+          onClick={() => router.push(`/room/${roomId}`)}
+          className="inline-flex items-center gap-2 rounded-xl border border-slate-300 bg-white px-4 h-[44px] text-sm font-medium text-slate-600 hover:bg-slate-50 hover:text-slate-800 transition"
+        >
+          {t("board.backToRoom")}
+        </button>
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleExportCsv}
+            className="rounded-xl border border-slate-300 bg-white px-4 h-[44px] text-sm font-medium text-slate-600 hover:bg-slate-50 transition"
+          >
+            {t("common.saveCsv")}
+          </button>
+          <button
+            onClick={() => window.print()}
+            className="rounded-xl border border-slate-300 bg-white px-4 h-[44px] text-sm font-medium text-slate-600 hover:bg-slate-50 transition"
+          >
+            {t("common.print")}
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto rounded-xl border border-slate-300 bg-white p-6 shadow-sm print:border-0 print:shadow-none">
+        <h1 className="text-2xl font-bold text-slate-900 text-center">
+          {t("board.title")}
+        </h1>
+        <p className="mt-1 mb-6 text-center text-sm text-slate-500">
+          {t("common.roomIdValue", { roomId })}
+        </p>
+
+        {!roomData ? (
+          <p className="py-8 text-center text-slate-400">
+            {t("common.loading")}
+          </p>
+        ) : (
+          <DelegationBoardTable
+            rows={rows}
+            levels={levels}
+            onSelectLevel={canModerate ? handleSelectLevel : undefined}
+          />
+        )}
+
+        <p className="mt-4 text-xs text-slate-500">
+          {t("board.legend")}
+          {canModerate && (
+            <span className="print:hidden">{t("board.roomHint")}</span>
+          )}
+        </p>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,13 @@
+// app/room/[roomId]/board/page.tsx
+import { Suspense } from "react";
+import BoardClient from "./BoardClient";
+
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return (
+    <Suspense fallback={null}>
+      <BoardClient />
+    </Suspense>
+  );
+}
@@ -1,13 +1,21 @@
 // app/room/[roomId]/page.tsx
 import { Suspense } from "react";
 import RoomClient from "./RoomClient";
+import JoinRoomClient from "./JoinRoomClient";
 
 export const dynamic = "force-dynamic";
 
-export default function Page() {
+export default async function Page({
+  searchParams,
+}: {
+  searchParams: Promise<{ name?: string | string[] }>;
+}) {
+  // 名前がない場合（招待リンク・QRコードから開いた場合など）は参加画面で入力する
+  const { name } = await searchParams;
+
   return (
     <Suspense fallback={null}>
-      <RoomClient />
+      {name ? <RoomClient /> : <JoinRoomClient />}
     </Suspense>
   );
 }
@@ -0,0 +1,61 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useAuthUser } from "../../../src/lib/auth";
+import {
+  joinWorkspace,
+  setCurrentWorkspaceId,
+} from "../../../src/lib/workspace";
+import { useI18n } from "../../I18nProvider";
+
+// 招待リンク（?w=ワークスペースID&code=招待コード）からワークスペースに参加する
+export default function JoinWorkspaceClient() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const workspaceId = searchParams.get("w") ?? "";
+  const code = searchParams.get("code") ?? "";
+
+  const { t } = useI18n();
+  const authUser = useAuthUser();
+  const [joinError, setJoinError] = useState("");
+  const isInvalidInvite = !workspaceId || !code;
+  const error = isInvalidInvite
+    ? t("workspace.error.invalidInvite")
+    : joinError;
+
+  useEffect(() => {
+    if (!authUser || isInvalidInvite) return;
+
+    joinWorkspace(workspaceId, code, authUser.uid)
+      .then(() => {
+        // 参加したワークスペースを選択した状態でホームに戻る
+        setCurrentWorkspaceId(workspaceId);
+        router.replace("/");
+      })
+      .catch((err) => {
+        console.error("Error joining workspace:", err);
+        setJoinError(t("workspace.error.joinFailed"));
+      });
+  }, [authUser, isInvalidInvite, workspaceId, code, router, t]);
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-100 to-slate-200 flex items-center justify-center px-6">
+      <div className="w-full max-w-md rounded-xl border border-slate-300 bg-white p-6 text-center shadow-sm">
+        {error ? (
+          <>
+            <p className="text-sm text-red-700">{error}</p>
+            <button
+              onClick={() => router.push("/")}
+              className="mt-4 rounded-xl border border-slate-300 bg-white px-4 h-[44px] text-sm font-medium text-slate-600 hover:bg-slate-50 transition"
+            >
+              {t("common.backHome")}
+            </button>
+          </>
+        ) : (
+          <p className="text-slate-500">{t("workspace.joining")}</p>
+        )}
+      </div>
+    </main>
+  );
+}
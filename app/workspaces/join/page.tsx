@@ -0,0 +1,13 @@
+// app/workspaces/join/page.tsx
+import { Suspense } from "react";
+import JoinWorkspaceClient from "./JoinWorkspaceClient";
+
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return (
+    <Suspense fallback={null}>
+      <JoinWorkspaceClient />
+    </Suspense>
+  );
+}
@@ -0,0 +1,226 @@
+// src/lib/agenda.ts
+import { generateUUID } from "./utils";
+
+/**
+ * 議題（1つのルームで順に投票するテーマ）
+ */
+export interface AgendaItem {
+  id: string;
+  title: string;
+  // 公開済みの最後のラウンド番号（まだ公開していなければ 0）
+  round: number;
+  // ホストが確定した合意レベル（デリゲーションボードに表示）
+  agreedLevel?: number | null;
+}
+
+/**
+ * 議題の定数
+ */
+export const AGENDA_CONFIG = {
+  // 議題の最大文字数
+  TOPIC_MAX_LENGTH: 100,
+  // agenda を持たない旧ルームの議題ID
+  LEGACY_TOPIC_ID: "main",
+} as const;
+
+/**
+ * 議題を作成
+ */
+export function createAgendaItem(title: string): AgendaItem {
+  return { id: generateUUID(), title: title.trim(), round: 0 };
+}
+
+/**
+ * ルームの議題一覧（agenda の無い旧ルームは topic を1件の議題として扱う）
+ */
+export function getAgenda(room: {
+  agenda?: AgendaItem[];
+  topic?: string;
+  round?: number;
+}): AgendaItem[] {
+  if (room.agenda && room.agenda.length > 0) {
+    return room.agenda;
+  }
+  return [
+    {
+      id: AGENDA_CONFIG.LEGACY_TOPIC_ID,
+      title: room.topic ?? "",
+      round: room.round ?? 0,
+    },
+  ];
+}
+
+/**
+ * 現在の議題ID
+ */
+export function getCurrentTopicId(room: {
+  agenda?: AgendaItem[];
+  currentTopicId?: string;
+  topic?: string;
+}): string {
+  return room.currentTopicId ?? getAgenda(room)[0].id;
+}
+
+/**
+ * 議題を前後に移動した一覧を返す（端を越える場合はそのまま）
+ */
+export function moveAgendaItem(
+  agenda: AgendaItem[],
+  id: string,
+  step: 1 | -1
+): AgendaItem[] {
+  const index = agenda.findIndex((item) => item.id === id);
+  const target = index + step;
+  if (index === -1 || target < 0 || target >= agenda.length) {
+    return agenda;
+  }
+
+  const next = [...agenda];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+/**
+ * 議題の一括入力の形式
+ * lines: 1行1議題 / csv: 1列目を議題とする / markdown: 箇条書き・チェックリスト
+ */
+export type TopicImportFormat = "lines" | "csv" | "markdown";
+
+/**
+ * 議題の一括入力の解析結果
+ */
+export interface TopicImport {
+  format: TopicImportFormat;
+  // 追加する議題（入力順）
+  topics: string[];
+  // 入力内または既存の議題と重複したため除いたもの
+  duplicates: string[];
+  // 文字数の上限を超えたため除いたもの
+  tooLong: string[];
+  // 議題として読み込まなかった行（Markdown の見出し、1列目が空の CSV の行）
+  skipped: string[];
+  // 2列目以降を読み込まなかった CSV の行
+  truncated: string[];
+}
+
+// Markdown の箇条書き（- / * / + / 1.）とチェックボックス
+const MARKDOWN_ITEM = /^(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?/;
+
+// Markdown の見出し
+const MARKDOWN_HEADING = /^#{1,6}\s/;
+
+// CSV の見出し行として扱う1列目の値
+const CSV_HEADERS = ["topic", "title", "議題", "テーマ"];
+
+// CSV の1行を列に分ける（"" で囲まれた値に対応）
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let value = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        value += c;
+      }
+    } else if (c === '"' && value === "") {
+      quoted = true;
+    } else if (c === ",") {
+      cells.push(value);
+      value = "";
+    } else {
+      value += c;
+    }
+  }
+  cells.push(value);
+  return cells;
+}
+
+// CSV の見出し行か
+const isCsvHeader = (line: string) =>
+  CSV_HEADERS.includes(splitCsvLine(line)[0].trim().toLowerCase());
+
+/**
+ * 入力の形式を推定する
+ * markdown: すべての行が箇条書きか見出し（箇条書きが1行以上）
+ * csv: 1行目が見出し行、または2行以上のすべての行が同じ数（2以上）の列を持つ
+ * どちらでもなければ 1行1議題（行の一部を落とさない）
+ */
+export function detectTopicImportFormat(lines: string[]): TopicImportFormat {
+  if (
+    lines.some((line) => MARKDOWN_ITEM.test(line)) &&
+    lines.every((line) => MARKDOWN_ITEM.test(line) || MARKDOWN_HEADING.test(line))
+  )
+    return "markdown";
+
+  if (lines.length > 0 && isCsvHeader(lines[0])) return "csv";
+  const columnCounts = new Set(lines.map((line) => splitCsvLine(line).length));
+  return lines.length >= 2 && columnCounts.size === 1 && !columnCounts.has(1)
+    ? "csv"
+    : "lines";
+}
+
+/**
+ * 貼り付けたテキスト（1行1議題・CSV・Markdown のチェックリスト）から議題を取り出す
+ * existingTitles と同じ議題（大文字小文字・前後の空白は区別しない）は重複として除く
+ * 読み込まなかった行・列は skipped / truncated に入れ、プレビューで知らせる
+ */
+export function parseTopicImport(
+  text: string,
+  existingTitles: string[] = []
+): TopicImport {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const format = detectTopicImportFormat(lines);
+  const result: TopicImport = {
+    format,
+    topics: [],
+    duplicates: [],
+    tooLong: [],
+    skipped: [],
+    truncated: [],
+  };
+
+  const titles = lines.flatMap((line, index) => {
+    if (format === "markdown") {
+      if (MARKDOWN_ITEM.test(line)) return [line.replace(MARKDOWN_ITEM, "")];
+      result.skipped.push(line);
+      return [];
+    }
+    if (format === "csv") {
+      if (index === 0 && isCsvHeader(line)) return [];
+      const [first, ...rest] = splitCsvLine(line);
+      if (!first.trim()) {
+        result.skipped.push(line);
+        return [];
+      }
+      if (rest.some((cell) => cell.trim())) result.truncated.push(line);
+      return [first];
+    }
+    return [line];
+  });
+
+  const seen = new Set(existingTitles.map((t) => t.trim().toLowerCase()));
+  for (const raw of titles) {
+    const title = raw.trim();
+    if (!title) continue;
+
+    const key = title.toLowerCase();
+    if (title.length > AGENDA_CONFIG.TOPIC_MAX_LENGTH) {
+      result.tooLong.push(title);
+    } else if (seen.has(key)) {
+      result.duplicates.push(title);
+    } else {
+      seen.add(key);
+      result.topics.push(title);
+    }
+  }
+  return result;
+}
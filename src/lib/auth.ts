@@ -0,0 +1,84 @@
+// src/lib/auth.ts
+import { useEffect, useState } from "react";
+import {
+  GoogleAuthProvider,
+  linkWithPopup,
+  onAuthStateChanged,
+  signInAnonymously,
+  signInWithCredential,
+  type AuthError,
+  type User,
+} from "firebase/auth";
+import { auth } from "./firebase";
+
+// 実行中の匿名ログイン（同時に呼ばれても匿名アカウントを1つだけ作るため）
+let pendingSignIn: Promise<User> | null = null;
+
+// 匿名ログインする（実行中のものがあれば同じ結果を待つ）
+function signInAnonymouslyOnce(): Promise<User> {
+  if (!pendingSignIn) {
+    pendingSignIn = signInAnonymously(auth)
+      .then((credential) => credential.user)
+      .finally(() => {
+        pendingSignIn = null;
+      });
+  }
+  return pendingSignIn;
+}
+
+/**
+ * ログイン済みのユーザーを取得（未ログインなら匿名ログインする）
+ */
+export async function ensureSignedIn(): Promise<User> {
+  await auth.authStateReady();
+  if (auth.currentUser) {
+    return auth.currentUser;
+  }
+  return signInAnonymouslyOnce();
+}
+
+/**
+ * ログイン中のユーザー（ログインが確定するまでは null）
+ * 参加者IDには user.uid を使う
+ */
+export function useAuthUser(): User | null {
+  const [user, setUser] = useState<User | null>(null);
+
+  useEffect(() => {
+    const unsub = onAuthStateChanged(auth, (current) => {
+      if (current) {
+        setUser(current);
+        return;
+      }
+      signInAnonymouslyOnce().catch((err) => {
+        console.error("[auth] anonymous sign-in error", err);
+      });
+    });
+
+    return () => unsub();
+  }, []);
+
+  return user;
+}
+
+/**
+ * 匿名アカウントを Google アカウントに紐付ける（UID はそのまま）
+ * 既に別のユーザーに紐付いている Google アカウントの場合は、そのユーザーでログインし直す
+ */
+export async function upgradeToGoogleAccount(): Promise<User> {
+  const user = await ensureSignedIn();
+  const provider = new GoogleAuthProvider();
+
+  try {
+    const credential = await linkWithPopup(user, provider);
+    return credential.user;
+  } catch (err) {
+    const authError = err as AuthError;
+    const existing = GoogleAuthProvider.credentialFromError(authError);
+    if (authError.code === "auth/credential-already-in-use" && existing) {
+      const credential = await signInWithCredential(auth, existing);
+      return credential.user;
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,75 @@
+// src/lib/board.ts
+import type { AgendaItem } from "./agenda";
+import type { DeckLevel } from "./deck";
+import {
+  type RankGroup,
+  type VoteCounts,
+  type VoteResultEntry,
+} from "./votes";
+
+/**
+ * デリゲーションボードの1行（議題 × 権限レベル）
+ */
+export interface BoardRow {
+  roomId: string;
+  topicId: string;
+  title: string;
+  // 最新ラウンドの票数と順位（まだ投票が無ければ null / 空）
+  counts: VoteCounts | null;
+  rankings: RankGroup[];
+  round: number | null;
+  // ホストが確定した合意レベル
+  agreedLevel: number | null;
+}
+
+/**
+ * 議題一覧と投票結果からボードの行を作る
+ * 議題IDの無い旧データはタイトルが一致する議題の結果として扱う
+ */
+export function buildBoardRows(
+  roomId: string,
+  agenda: AgendaItem[],
+  results: VoteResultEntry[]
+): BoardRow[] {
+  return agenda.map((item) => {
+    const latest = results
+      .filter(
+        (r) =>
+          r.roomId === roomId &&
+          (r.topicId ? r.topicId === item.id : r.topic === item.title)
+      )
+      .sort(
+        (a, b) => (b.votedAt?.toMillis() ?? 0) - (a.votedAt?.toMillis() ?? 0)
+      )[0];
+
+    return {
+      roomId,
+      topicId: item.id,
+      title: item.title,
+      counts: latest?.counts ?? null,
+      rankings: latest?.rankings ?? [],
+      round: latest?.round ?? null,
+      agreedLevel: item.agreedLevel ?? null,
+    };
+  });
+}
+
+/**
+ * ボードを CSV 用の行にする（1行目は見出し、列はデッキのレベル）
+ */
+export function boardToCsvRows(
+  rows: BoardRow[],
+  levels: DeckLevel[]
+): unknown[][] {
+  const values = levels.map((l) => l.level);
+  return [
+    ["roomId", "topic", "round", ...values.map((v) => `level${v}`), "agreedLevel"],
+    ...rows.map((row) => [
+      row.roomId,
+      row.title,
+      row.round ?? "",
+      ...values.map((v) => row.counts?.[v] ?? ""),
+      row.agreedLevel ?? "",
+    ]),
+  ];
+}
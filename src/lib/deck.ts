@@ -0,0 +1,240 @@
+// src/lib/deck.ts
+import { DEFAULT_LOCALE, type Locale } from "./i18n";
+
+/**
+ * 権限レベルのカード（value は集計・統計に使う数値）
+ */
+export interface DeckLevel {
+  level: number;
+  title: string;
+  description: string;
+}
+
+/**
+ * 集計・統計の対象にならない追加カード（「?」「情報不足」など）
+ */
+export interface DeckExtraCard {
+  id: string;
+  label: string;
+  description: string;
+}
+
+/**
+ * ルームで使うカードのセット（作成時に選び、ルームと結果に保存する）
+ */
+export interface Deck {
+  id: string;
+  name: string;
+  levels: DeckLevel[];
+  extras: DeckExtraCard[];
+}
+
+/**
+ * 参加者が出したカード（数値は権限レベル、文字列は追加カードの id）
+ */
+export type CardValue = number | string;
+
+/**
+ * デッキ編集の上限
+ */
+export const DECK_CONFIG = {
+  TITLE_MAX_LENGTH: 10,
+  DESCRIPTION_MAX_LENGTH: 50,
+} as const;
+
+// 追加カードの名称と説明（言語ごと）
+const EXTRA_CARD_TEXTS: Record<Locale, Record<string, Omit<DeckExtraCard, "id">>> = {
+  ja: {
+    unsure: { label: "?", description: "判断できない・分からない" },
+    info: { label: "情報不足", description: "決めるには情報が足りない" },
+  },
+  en: {
+    unsure: { label: "?", description: "Can't judge / not sure" },
+    info: { label: "Need info", description: "Not enough information to decide" },
+  },
+};
+
+// プリセットの名称と、レベル順の [名称, 説明]（言語ごと）
+const STANDARD_LEVEL_TEXTS: Record<Locale, [string, string][]> = {
+  ja: [
+    ["指示", "上司が決めて指示する"],
+    ["説得", "上司が決めて説明・説得する"],
+    ["相談", "意見を聞いた上で上司が決める"],
+    ["合意", "話し合って一緒に決める"],
+    ["助言", "部下が決め、必要なら助言する"],
+    ["委任", "部下が自由に決めて実行する"],
+    ["報告", "部下が決め、事後報告のみ"],
+  ],
+  en: [
+    ["Tell", "The manager decides and announces it"],
+    ["Sell", "The manager decides and explains why"],
+    ["Consult", "The manager decides after hearing opinions"],
+    ["Agree", "We discuss and decide together"],
+    ["Advise", "The team decides; the manager advises if asked"],
+    ["Delegate", "The team decides and acts freely"],
+    ["Report", "The team decides and only reports afterwards"],
+  ],
+};
+
+const PRESET_TEXTS: Record<
+  Locale,
+  Record<string, { name: string; levels: [string, string][] }>
+> = {
+  ja: {
+    standard: { name: "標準（7段階）", levels: STANDARD_LEVEL_TEXTS.ja },
+    "standard-extras": {
+      name: "標準（7段階）＋「?」「情報不足」",
+      levels: STANDARD_LEVEL_TEXTS.ja,
+    },
+    five: {
+      name: "簡易（5段階）",
+      levels: [
+        ["指示", "上司が決める"],
+        ["相談", "意見を聞いた上で上司が決める"],
+        ["合意", "話し合って一緒に決める"],
+        ["助言", "部下が決め、必要なら助言する"],
+        ["委任", "部下が決めて実行する"],
+      ],
+    },
+  },
+  en: {
+    standard: { name: "Standard (7 levels)", levels: STANDARD_LEVEL_TEXTS.en },
+    "standard-extras": {
+      name: "Standard (7 levels) + \"?\" and \"Need info\"",
+      levels: STANDARD_LEVEL_TEXTS.en,
+    },
+    five: {
+      name: "Simple (5 levels)",
+      levels: [
+        ["Tell", "The manager decides"],
+        ["Consult", "The manager decides after hearing opinions"],
+        ["Agree", "We discuss and decide together"],
+        ["Advise", "The team decides; the manager advises if asked"],
+        ["Delegate", "The team decides and acts"],
+      ],
+    },
+  },
+};
+
+// プリセットのデッキを組み立てる（保存用の既定の言語）
+const buildPreset = (id: string, extraIds: string[]): Deck => {
+  const text = PRESET_TEXTS[DEFAULT_LOCALE][id];
+  return {
+    id,
+    name: text.name,
+    levels: text.levels.map(([title, description], i) => ({
+      level: i + 1,
+      title,
+      description,
+    })),
+    extras: extraIds.map((extraId) => ({
+      id: extraId,
+      ...EXTRA_CARD_TEXTS[DEFAULT_LOCALE][extraId],
+    })),
+  };
+};
+
+/**
+ * 選択できる追加カード
+ */
+export const EXTRA_CARDS: DeckExtraCard[] = ["unsure", "info"].map((id) => ({
+  id,
+  ...EXTRA_CARD_TEXTS[DEFAULT_LOCALE][id],
+}));
+
+/**
+ * デッキのプリセット（先頭が既定）
+ */
+export const DECK_PRESETS: Deck[] = [
+  buildPreset("standard", []),
+  buildPreset("standard-extras", ["unsure", "info"]),
+  buildPreset("five", []),
+];
+
+/**
+ * 既定のデッキ（デッキを持たない旧ルーム・旧データもこれで扱う）
+ */
+export const DEFAULT_DECK = DECK_PRESETS[0];
+
+/**
+ * ルーム・結果のデッキ（未設定なら既定のデッキ）
+ */
+export function getDeck(source: { deck?: Deck | null } | null | undefined): Deck {
+  return source?.deck ?? DEFAULT_DECK;
+}
+
+/**
+ * 追加カードを表示する言語にする
+ */
+export function localizeExtraCard(
+  card: DeckExtraCard,
+  locale: Locale
+): DeckExtraCard {
+  const text = EXTRA_CARD_TEXTS[locale][card.id];
+  return text ? { ...card, ...text } : card;
+}
+
+/**
+ * デッキを表示する言語にする
+ * プリセットのレベルは言語ごとの名称・説明に置き換え、カスタムのレベルはそのまま
+ */
+export function localizeDeck(deck: Deck, locale: Locale): Deck {
+  const extras = deck.extras.map((e) => localizeExtraCard(e, locale));
+  const text = PRESET_TEXTS[locale][deck.id];
+  if (!text) return { ...deck, extras };
+
+  return {
+    ...deck,
+    name: text.name,
+    levels: deck.levels.map((l) => {
+      const levelText = text.levels[l.level - 1];
+      return levelText
+        ? { ...l, title: levelText[0], description: levelText[1] }
+        : l;
+    }),
+    extras,
+  };
+}
+
+/**
+ * 権限レベルの値（昇順）
+ */
+export function getLevelValues(deck: Deck): number[] {
+  return deck.levels.map((l) => l.level).sort((a, b) => a - b);
+}
+
+/**
+ * 権限レベルの名称と説明
+ */
+export function findLevel(deck: Deck, level: number): DeckLevel | undefined {
+  return deck.levels.find((l) => l.level === level);
+}
+
+/**
+ * カードの表示名（レベルは数値、追加カードはラベル）
+ */
+export function cardLabel(deck: Deck, card: CardValue | null): string {
+  if (card == null) return "";
+  if (typeof card === "number") return String(card);
+  return deck.extras.find((e) => e.id === card)?.label ?? card;
+}
+
+/**
+ * 複数のデッキのレベルをまとめる（同じ値は先に出たデッキの名称を使う）
+ */
+export function mergeDeckLevels(decks: Deck[]): DeckLevel[] {
+  const levels = new Map<number, DeckLevel>();
+  for (const deck of decks) {
+    for (const l of deck.levels) {
+      if (!levels.has(l.level)) levels.set(l.level, l);
+    }
+  }
+  return Array.from(levels.values()).sort((a, b) => a.level - b.level);
+}
+
+/**
+ * カードの枚数に合わせたグリッドの列（style に渡す）
+ */
+export function levelGridStyle(count: number): { gridTemplateColumns: string } {
+  return { gridTemplateColumns: `repeat(${count}, minmax(0, 1fr))` };
+}
@@ -0,0 +1,154 @@
+// src/lib/expiry.ts
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  serverTimestamp,
+  updateDoc,
+  writeBatch,
+  type Timestamp,
+} from "firebase/firestore";
+import { db } from "./firebase";
+
+/**
+ * 放置されたルームの自動終了の定数
+ */
+export const ROOM_EXPIRY_CONFIG = {
+  // 最後の活動からルームを終了するまで（秒）。作成時にルームへ保存する
+  // 未保存の旧ルームはこの値で扱う（firestore.rules の既定値と合わせる）
+  IDLE_TIMEOUT_SEC: 24 * 60 * 60, // 24時間
+  // 作成時に選べる終了までの時間（秒、firestore.rules の範囲と合わせる）
+  IDLE_TIMEOUT_OPTIONS_SEC: [
+    60 * 60, // 1時間
+    6 * 60 * 60, // 6時間
+    24 * 60 * 60, // 24時間
+    3 * 24 * 60 * 60, // 3日
+    7 * 24 * 60 * 60, // 7日
+  ],
+  // 終了までの残り時間を表示し始める（ミリ秒）
+  WARNING_MS: 2 * 60 * 60 * 1000, // 2時間
+  // 在席中の参加者がルームの活動時刻を更新する間隔（ミリ秒）
+  ACTIVITY_INTERVAL_MS: 5 * 60 * 1000, // 5分
+} as const;
+
+/**
+ * 自動終了の判定に使うルームの項目
+ */
+export interface RoomActivity {
+  // 最後に参加者が在席していた時刻（未設定の旧ルームは作成時刻）
+  lastActivityAt?: Timestamp | null;
+  idleTimeoutSec?: number | null;
+  createdAt?: unknown;
+}
+
+/**
+ * 終了後の片付けの判定に使うルームの項目
+ */
+export interface RoomCleanupState {
+  status?: string;
+  // サブコレクションを削除し終えた時刻（未完了なら未設定）
+  cleanedUpAt?: Timestamp | null;
+}
+
+// 1つのバッチで書き込める上限
+const MAX_BATCH_WRITES = 500;
+
+// 片付け中のルーム（同じ端末で重ねて実行しないため）
+const cleaningRoomIds = new Set<string>();
+
+/**
+ * ルームの最後の活動時刻（ミリ秒、不明なら null）
+ */
+export function getLastActivityMs(room: RoomActivity): number | null {
+  const createdAt = room.createdAt as Timestamp | null | undefined;
+  return (
+    room.lastActivityAt?.toMillis() ?? createdAt?.toMillis?.() ?? null
+  );
+}
+
+/**
+ * 操作がないためにルームが終了する時刻（ミリ秒、不明なら null）
+ */
+export function getRoomExpiresAtMs(room: RoomActivity): number | null {
+  const lastActivityMs = getLastActivityMs(room);
+  if (lastActivityMs == null) return null;
+  const timeoutSec = room.idleTimeoutSec ?? ROOM_EXPIRY_CONFIG.IDLE_TIMEOUT_SEC;
+  return lastActivityMs + timeoutSec * 1000;
+}
+
+/**
+ * 終了までの残り時間を表示するか（残り WARNING_MS 以内）
+ */
+export function isExpiringSoon(expiresAtMs: number | null, now: number): boolean {
+  return (
+    expiresAtMs != null &&
+    expiresAtMs > now &&
+    expiresAtMs - now <= ROOM_EXPIRY_CONFIG.WARNING_MS
+  );
+}
+
+/**
+ * 操作がないルームを終了し、参加者などのサブコレクションを削除する
+ * ルームのドキュメントは終了状態のまま残し、vote_results は削除しない
+ * 複数の端末が同時に呼んだ場合、終了は最初の1回だけが成功する
+ */
+export async function expireRoom(roomId: string): Promise<void> {
+  await updateDoc(doc(db, "rooms", roomId), {
+    status: "ended",
+    endedReason: "idle",
+    endedAt: serverTimestamp(),
+    timerStartedAt: null,
+    timerDurationSec: null,
+    timerKind: null,
+  });
+  await cleanupRoom(roomId);
+}
+
+/**
+ * 終了し（ホストによる終了・操作がないための終了）、片付けが終わっていないルームか
+ * 終了した端末の片付けが失敗した場合や、ホストが終了した場合に別の端末から片付ける
+ */
+export function needsCleanup(room: RoomCleanupState): boolean {
+  return room.status === "ended" && !room.cleanedUpAt;
+}
+
+/**
+ * 終了したルームの参加者・ホスト復帰コード・パスコードを削除し、cleanedUpAt を記録する
+ * 復帰コード・パスコードは読み取れないため、参加したことのある ID（joinedIds）と
+ * 今の参加者の ID から場所を求めて削除する
+ */
+export async function cleanupRoom(roomId: string): Promise<void> {
+  if (cleaningRoomIds.has(roomId)) return;
+  cleaningRoomIds.add(roomId);
+
+  try {
+    const [roomSnap, snap] = await Promise.all([
+      getDoc(doc(db, "rooms", roomId)),
+      getDocs(collection(db, "rooms", roomId, "participants")),
+    ]);
+    const joinedIds: string[] = roomSnap.data()?.joinedIds ?? [];
+    const uids = new Set([...joinedIds, ...snap.docs.map((d) => d.id)]);
+
+    const refs = [
+      ...snap.docs.map((d) => d.ref),
+      ...Array.from(uids).flatMap((uid) => [
+        doc(db, "rooms", roomId, "hostClaims", uid),
+        doc(db, "rooms", roomId, "passcodeClaims", uid),
+      ]),
+      doc(db, "rooms", roomId, "secrets", "passcode"),
+      doc(db, "rooms", roomId, "secrets", "hostClaim"),
+    ];
+    for (let i = 0; i < refs.length; i += MAX_BATCH_WRITES) {
+      const batch = writeBatch(db);
+      refs.slice(i, i + MAX_BATCH_WRITES).forEach((ref) => batch.delete(ref));
+      await batch.commit();
+    }
+
+    await updateDoc(doc(db, "rooms", roomId), {
+      cleanedUpAt: serverTimestamp(),
+    });
+  } finally {
+    cleaningRoomIds.delete(roomId);
+  }
+}
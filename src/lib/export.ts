@@ -0,0 +1,45 @@
+// src/lib/export.ts
+
+/**
+ * CSV の1セルをエスケープ（カンマ・改行・ダブルクォートを含む場合は囲む）
+ * 表計算ソフトで数式として実行されないよう、= + - @ などで始まる文字列は先頭に ' を付ける
+ */
+function escapeCsvCell(value: unknown): string {
+  const raw = value == null ? "" : String(value);
+  const text =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 行の配列を CSV 文字列にする（Excel で文字化けしないよう BOM 付き）
+ */
+export function toCsv(rows: unknown[][]): string {
+  return (
+    "\uFEFF" + rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n")
+  );
+}
+
+// ダウンロードの開始を待ってから URL を破棄する（ミリ秒）
+const REVOKE_DELAY_MS = 10000;
+
+/**
+ * 文字列をファイルとしてダウンロードさせる
+ */
+export function downloadFile(
+  filename: string,
+  content: string,
+  mimeType: string
+): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  // ブラウザによっては文書内にないリンクのクリックでダウンロードされない
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // すぐに破棄するとダウンロードが始まる前に URL が無効になることがある
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
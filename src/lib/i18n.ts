@@ -0,0 +1,853 @@
+// src/lib/i18n.ts
+
+/**
+ * 対応する言語
+ */
+export const LOCALES = ["ja", "en"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+/**
+ * 既定の言語（Cookie もブラウザの設定も使えない場合）
+ */
+export const DEFAULT_LOCALE: Locale = "ja";
+
+/**
+ * 選んだ言語を保存する Cookie（サーバー側で <html lang> を決めるため）
+ */
+export const LOCALE_COOKIE = "dp_locale";
+
+/**
+ * 言語の切り替えに表示する名称（それぞれの言語で表記）
+ */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  ja: "日本語",
+  en: "English",
+};
+
+/**
+ * 日付の表示に使うロケール
+ */
+export const DATE_LOCALES: Record<Locale, string> = {
+  ja: "ja-JP",
+  en: "en-US",
+};
+
+/**
+ * 翻訳文（数によって変わる場合は one / other を使い分ける）
+ */
+export type Message = string | { one: string; other: string };
+
+const ja = {
+  // 共通
+  "common.untitledTopic": "（テーマ未設定）",
+  "common.unset": "（未設定）",
+  "common.loading": "読み込み中...",
+  "common.close": "閉じる",
+  "common.cancel": "キャンセル",
+  "common.backHome": "＜ ホームに戻る",
+  "common.saveCsv": "CSV で保存",
+  "common.saveJson": "JSON で保存",
+  "common.print": "印刷",
+  "common.roomId": "ルームID",
+  "common.roomIdValue": "ルームID：{roomId}",
+  "common.level": "レベル {level}",
+  "common.owner": "担当：{owner}",
+  "common.reviewDate": "見直し日：{date}",
+  "common.decidedLevel": "決定したレベル",
+  "common.notVoted": "未投票",
+  "common.online": "オンライン",
+  "common.offline": "オフライン",
+  "common.tied": "同票",
+  "common.topicIndex": "議題{index}",
+  "common.round": "{round}回目",
+  "common.roundVote": "{round}回目の投票",
+  "common.voteCount": "{count}票",
+  "common.cardCount": "{count}枚",
+  "common.extraCount": "{label}：{count}枚",
+  "common.percent": "（{percent}%）",
+  "common.parenthesized": "（{text}）",
+  "common.listSeparator": "・",
+  "common.enumSeparator": "、",
+  "common.labelSeparator": "：",
+  "common.votesByParticipant": "参加者ごとの投票",
+  "common.participantSummary":
+    "参加者 {participants} 人 / オンライン {online} 人",
+  "common.observerSummary": " / 観戦 {count} 人",
+  "common.loadResultsFailed": "結果の取得に失敗しました",
+  "common.exportResultsFailed": "結果の書き出しに失敗しました",
+  "common.language": "言語",
+
+  // 統計
+  "stats.consensusScore": "合意度",
+  "stats.mean": "平均",
+  "stats.median": "中央値",
+  "stats.min": "最小",
+  "stats.max": "最大",
+  "stats.stdDev": "標準偏差",
+  "stats.voteCount": "投票数",
+  "stats.range": "範囲 {min}〜{max}",
+  "consensus.unanimous": "全員一致",
+  "consensus.close": "ほぼ合意（全票が1レベル以内）",
+  "consensus.split": "意見が割れています",
+
+  // デッキ
+  "deck.custom": "カスタム",
+
+  // 議題の一括入力
+  "import.format.lines": "1行1議題",
+  "import.format.csv": "CSV（1列目）",
+  "import.format.markdown": "Markdown の箇条書き",
+  "import.summary": "{format}として読み込み ・ {count}件の議題",
+  "import.duplicates": "重複のため除外：{titles}",
+  "import.tooLong": "{max}文字を超えるため除外：{titles}",
+  "import.truncated": "{count}行は1列目だけを議題にしました：{lines}",
+  "import.skipped": "議題として読み込まなかった行：{lines}",
+  "import.placeholder": "1行に1議題、CSV、Markdown のチェックリストを貼り付け",
+  "import.placeholderExample":
+    "1行に1議題、CSV、Markdown のチェックリストを貼り付け\n- [ ] 採用の最終判断\n- [ ] 予算の配分",
+
+  // 見直し（.ics）
+  "review.icsSummary": "権限の見直し: {title}",
+  "review.icsLevel": "決定したレベル: {level}",
+  "review.icsOwner": "担当: {owner}",
+  "review.icsNotes": "メモ: {notes}",
+  "review.icsRoom": "ルーム: {roomId}",
+
+  // ホーム
+  "home.tagline": "意思決定の権限レベルを合意形成しよう",
+  "home.pastResults": "過去の投票結果を見る",
+  "home.teamBoard": "チームのデリゲーションボード",
+  "home.reviewsTitle": "見直し予定の決定",
+  "home.reviewsIcs": "見直し日をカレンダーに追加（.ics）",
+  "home.reviewDue": "見直し日 {date}",
+  "home.overdue": "（期限切れ）",
+  "home.ownerInline": " ・ 担当：{owner}",
+  "home.reopen": "見直す",
+  "home.creating": "作成中...",
+  "home.basicInfo": "基本情報",
+  "home.yourName": "あなたの名前",
+  "home.namePlaceholder": "名前を入力",
+  "home.signingIn": "ログイン中...",
+  "home.anonymous": "匿名ユーザーとして参加します",
+  "home.signedInAs": "{name} としてログイン中",
+  "home.linking": "連携中...",
+  "home.linkGoogle": "Google アカウントと連携",
+  "home.joinAs": "参加方法",
+  "home.roleVoter": "投票する",
+  "home.roleObserver": "観戦のみ（投票しない）",
+  "home.createTitle": "新しいルームを作成",
+  "home.bulkTopics": "議題（まとめて入力）",
+  "home.topic": "デリゲーションテーマ",
+  "home.singleTopic": "1件だけ入力",
+  "home.bulkToggle": "まとめて入力",
+  "home.topicPlaceholder": "〇〇の権限委譲について",
+  "home.cards": "カード",
+  "home.editDeck": "名称・追加カードを変更",
+  "home.levelTitle": "レベル{level}の名称",
+  "home.levelDescription": "レベル{level}の説明",
+  "home.extraCard": "「{label}」カード",
+  "home.customRoomIdPlaceholder": "ルームID（任意・例: TEAM-A-Q3）",
+  "home.unlisted": "ルーム一覧に表示しない",
+  "home.anonymousResults": "結果に参加者の名前を残さない（匿名）",
+  "home.closesIn": "（操作がないため{count}時間以内に終了）",
+  "home.passcodePlaceholder": "参加パスコード（任意）",
+  "home.passcodeHint":
+    "パスコードを設定すると、参加するときに入力が必要になります（{min}文字以上、大文字・小文字は区別しません。間違えられるのは1人{attempts}回までです）。結果は参加者だけが見られ、履歴や書き出しには含まれません",
+  "home.idleTimeout": "操作がない場合に終了するまで",
+  "home.idleTimeoutHours": "{count}時間",
+  "home.idleTimeoutDays": "{count}日",
+  "home.createRoom": "ルームを作成",
+  "home.joinTitle": "既存のルームに参加",
+  "home.selectRoom": "（選択してください）",
+  "home.joining": "参加中...",
+  "home.joinRoom": "ルームに参加",
+  "home.resultsTitle": "投票結果",
+  "home.searchAllResults": "すべての結果を検索",
+  "home.noResults": "結果がまだありません。",
+  "home.error.linkFailed": "アカウントの連携に失敗しました",
+  "home.error.nameRequired": "名前を入力してください",
+  "home.error.topicsRequired": "議題を1件以上入力してください",
+  "home.error.topicRequired": "デリゲーションテーマを入力してください",
+  "home.error.cardTitleRequired": "カードの名称を入力してください",
+  "home.error.createFailed": "ルームの作成に失敗しました",
+  "home.error.reopenFailed": "見直し用のルームの作成に失敗しました",
+  "home.error.roomIdRequired": "ルームIDを入力してください",
+  "home.error.roomIdInvalid":
+    "ルームIDは英字・数字・ハイフンで{min}〜{max}文字にしてください（例: TEAM-A-Q3）",
+  "home.error.roomIdTaken": "ルームID {roomId} は既に使われています",
+  "home.error.passcodeTooShort": "パスコードは{min}文字以上にしてください",
+  "home.error.roomNotFound": "ルームが見つかりませんでした",
+  "home.error.joinFailed": "ルームへの参加に失敗しました",
+
+  // 招待リンクからの参加
+  "join.title": "ルームに参加",
+  "join.submit": "参加する",
+
+  // ワークスペース
+  "workspace.label": "ワークスペース",
+  "workspace.create": "新しいワークスペース",
+  "workspace.copyInvite": "招待リンクをコピー",
+  "workspace.copied": "コピーしました",
+  "workspace.resetInvite": "招待リンクを作り直す",
+  "workspace.confirm.resetInvite":
+    "招待リンクを作り直しますか？これまでの招待リンクは使えなくなります（参加済みのメンバーはそのままです）",
+  "workspace.none":
+    "ワークスペースを作成するか、招待リンクから参加するとルームを作成できます",
+  "workspace.prompt.name": "ワークスペースの名前（{max}文字以内）",
+  "workspace.joining": "ワークスペースに参加中...",
+  "workspace.error.required": "ワークスペースを選択してください",
+  "workspace.error.createFailed": "ワークスペースの作成に失敗しました",
+  "workspace.error.resetInviteFailed": "招待リンクの作り直しに失敗しました",
+  "workspace.error.invalidInvite": "招待リンクが正しくありません",
+  "workspace.error.joinFailed":
+    "ワークスペースに参加できませんでした。招待リンクが古い可能性があります",
+
+  // ルーム
+  "room.anonymous": "匿名",
+  "room.leftParticipant": "（退出済み）",
+  "room.loading": "ルームを読み込み中...",
+  "room.copy": "コピー",
+  "room.invite": "招待リンク・QRコード",
+  "room.inviteQrAlt": "ルーム {roomId} の招待QRコード",
+  "room.inviteHint": "開いた人は名前を入力してから参加します",
+  "room.copyInvite": "リンクをコピー",
+  "room.inviteCopied": "コピーしました",
+  "room.duplicateName":
+    "「{name}」という名前の参加者がほかにもいます。区別できるよう名前を変更してください",
+  "room.rename": "名前を変更",
+  "room.board": "ボード",
+  "room.backToRooms": "＜ ルーム指定に戻る",
+  "room.agendaProgress": "議題 {index} / {total}",
+  "room.reviewOfTitle": "前回の決定の見直し（{roomId}・見直し日 {date}）",
+  "room.reviewOfDecision": "前回の決定：レベル {level} {title}",
+  "room.reviewOfOwner": "（担当：{owner}）",
+  "room.reviewOfRankings": "前回の順位：",
+  "room.reviewOfRank": "{rank}位 {levels}",
+  "room.reviewOfRankCount": "（{count}票）",
+  "room.reviewOfHidden": "前回の結果は公開後に表示されます",
+  "room.agenda": "議題",
+  "room.topicVoting": "投票中",
+  "room.topicRounds": "{count}回投票済み",
+  "room.moveUp": "上へ",
+  "room.moveDown": "下へ",
+  "room.goToTopic": "この議題へ",
+  "room.remove": "削除",
+  "room.addTopicPlaceholder": "議題を追加",
+  "room.add": "追加",
+  "room.bulkAdd": "まとめて追加",
+  "room.addToAgenda": "議題に追加",
+  "room.selectLevel": "権限レベルを選択してください",
+  "room.comment": "判断の理由（任意）",
+  "room.commentPlaceholder": "このレベルを選んだ理由",
+  "room.anonymousHint": "匿名のルームのため、理由は名前なしで記録されます",
+  "room.status.observing": "● 観戦中のため投票できません",
+  "room.status.pleaseVote": "● 投票を行ってください",
+  "room.status.waiting": "● 投票の締め切りまでお待ちください",
+  "room.status.allVotedCountdown": "全員投票済み・公開まで ",
+  "room.status.countdown": "締め切りまで ",
+  "room.status.closed": "● 投票は締め切られました",
+  "room.participants": "参加者",
+  "room.joinVoting": "投票に参加する",
+  "room.switchToObserver": "観戦に切り替える",
+  "room.participantCount": "参加者：{count} 人",
+  "room.notVotedCount": "（未投票：{count} 人）",
+  "room.noOnlineParticipants": "オンラインの参加者はいません",
+  "room.you": "(あなた)",
+  "room.youHost": "(あなた・ホスト)",
+  "room.host": "ホスト",
+  "room.coHost": "共同ホスト",
+  "room.speaking": "🎤 発言中",
+  "room.excluded": "集計対象外",
+  "room.removeCoHost": "共同ホストを解除",
+  "room.makeCoHost": "共同ホストにする",
+  "room.transferHost": "ホストを譲る",
+  "room.removeParticipant": "退出させる",
+  "room.claimHostLink": "ホスト復帰コードでホストに戻る",
+  "room.observerCount": "観戦者：{count} 人",
+  "room.results": "投票結果",
+  "room.topTie": "1位が同票です（{levels}、各 {count}票）。話し合ってレベルを決めてください",
+  "room.tieJoin": " と ",
+  "room.rank": "{rank}位",
+  "room.rankTied": "{rank}位（同票）",
+  "room.consensusScore": "{label}（合意度 {score}）",
+  "room.noVotes": "投票がありません",
+  "room.edit": "編集",
+  "room.addToCalendar": "カレンダーに追加（.ics）",
+  "room.recordDiscussion": "話し合った結果を記録する",
+  "room.recordDecision": "決定を記録",
+  "room.ownerPlaceholder": "担当者（任意）",
+  "room.notesPlaceholder": "条件・メモ（任意）",
+  "room.reviewDate": "見直し日",
+  "room.reviewDateHint": "空欄なら見直さない",
+  "room.save": "記録する",
+  "room.exportRoomResults": "このルームの結果を保存：",
+  "room.speakingOrder": "発言順",
+  "room.suggestedSpeakingOrder": "おすすめの発言順",
+  "room.currentSpeaker": "🎤 現在の発言者：",
+  "room.startSpeaking": "この順で発言を始める",
+  "room.previousSpeaker": "＜ 前へ",
+  "room.nextSpeaker": "次の人へ ＞",
+  "room.firstSpeaker": "最初から",
+  "room.claimCode": "ホスト復帰コード：",
+  "room.showClaimCode": "表示する",
+  "room.claimCodeHint":
+    "端末が変わってもこのコードでホストに戻れます。控えておいてください。",
+  "room.excludeOffline": "オフラインの参加者の票を集計に含めない",
+  "room.removeOffline": "オフラインの参加者を削除（{count} 人）",
+  "room.autoReveal":
+    "オンラインの全員が投票したら自動で締め切る（{sec}秒の猶予あり）",
+  "room.timer": "タイマー：",
+  "room.seconds": "{sec}秒",
+  "room.secondsPlaceholder": "秒数",
+  "room.start": "開始",
+  "room.cancelAutoReveal": "自動公開を取り消す",
+  "room.stopTimer": "タイマーを止める",
+  "room.reveal": "投票を締め切る",
+  "room.revote": "同じテーマで再投票",
+  "room.nextTopic": "次の議題へ",
+  "room.endRoom": "＜ このテーマを終了する",
+  "room.alert.notFound": "ルームが見つかりませんでした",
+  "room.alert.noAccess": "このルームのワークスペースに参加していません",
+  "room.alert.wrongPasscode": "パスコードが正しくありません",
+  "room.alert.passcodeLocked":
+    "パスコードを入力できる回数を超えたため、このルームには参加できません",
+  "room.alert.renameFailed": "名前の変更に失敗しました",
+  "room.alert.ended":
+    "このテーマはホストにより終了されました。\nルーム指定画面に戻ります。\n\nルームID：{roomId}",
+  "room.alert.endedIdle":
+    "操作がないため、このルームは終了しました。\nルーム指定画面に戻ります。\n\nルームID：{roomId}",
+  "room.alert.removed":
+    "ホストによりルームから退出されました。\nルーム指定画面に戻ります。\n\nルームID：{roomId}",
+  "room.alert.voteFailed": "投票の更新に失敗しました",
+  "room.alert.roleFailed": "役割の変更に失敗しました",
+  "room.alert.commentFailed": "理由の保存に失敗しました",
+  "room.confirm.removeParticipant": "{name} さんをルームから退出させますか？",
+  "room.alert.removeParticipantFailed": "参加者の削除に失敗しました",
+  "room.confirm.removeOffline":
+    "オフラインの参加者 {count} 人を削除しますか？\n投票内容も削除されます。",
+  "room.alert.removeOfflineFailed": "オフライン参加者の削除に失敗しました",
+  "room.alert.settingsFailed": "設定の更新に失敗しました",
+  "room.confirm.transferHost": "{name} さんにホストを譲りますか？",
+  "room.alert.transferHostFailed": "ホストの変更に失敗しました",
+  "room.alert.coHostFailed": "共同ホストの変更に失敗しました",
+  "room.alert.noClaimCode": "このルームにはホスト復帰コードが設定されていません",
+  "room.prompt.claimCode": "ホスト復帰コードを入力してください",
+  "room.prompt.passcode":
+    "このルームに参加するにはパスコードを入力してください（大文字・小文字は区別しません。あと{count}回まで入力できます）",
+  "room.prompt.rename": "新しい名前を入力してください",
+  "room.alert.wrongClaimCode": "ホスト復帰コードが正しくありません",
+  "room.alert.claimFailed": "ホストの復帰に失敗しました",
+  "room.alert.revealFailed": "結果の表示に失敗しました",
+  "room.alert.timerRange": "1〜{max}秒の範囲で指定してください",
+  "room.alert.timerStartFailed": "タイマーの開始に失敗しました",
+  "room.alert.timerStopFailed": "タイマーの停止に失敗しました",
+  "room.alert.speakingStartFailed": "発言順の開始に失敗しました",
+  "room.alert.speakerFailed": "発言者の切り替えに失敗しました",
+  "room.confirm.nextRound": "全員の投票をリセットして次のラウンドに進みますか？",
+  "room.alert.resetFailed": "リセットに失敗しました",
+  "room.alert.decisionLevelRequired": "合意したレベルを選択してください",
+  "room.alert.decisionFailed": "決定の記録に失敗しました",
+  "room.alert.topicTooLong": "議題は{max}文字以内で入力してください",
+  "room.alert.addTopicFailed": "議題の追加に失敗しました",
+  "room.alert.moveTopicFailed": "議題の並べ替えに失敗しました",
+  "room.confirm.removeTopic": "議題「{title}」を削除しますか？",
+  "room.alert.removeTopicFailed": "議題の削除に失敗しました",
+  "room.confirm.goToTopic":
+    "議題「{title}」に進みますか？\n全員の投票はリセットされます。",
+  "room.alert.goToTopicFailed": "議題の切り替えに失敗しました",
+  "room.confirm.endRoom":
+    "このテーマを終了しますか？\n他の参加者も退室となります。\n\nルームID：{roomId}",
+  "room.alert.endRoomFailed": "ルーム終了に失敗しました",
+
+  // デリゲーションボード
+  "board.noTopics": "議題がありません",
+  "board.topic": "議題",
+  "board.clickToDecide": "クリックで合意レベルに設定",
+  "board.agreedLevel": "合意レベル",
+  "board.title": "デリゲーションボード",
+  "board.teamTitle": "チームのデリゲーションボード",
+  "board.roomIdsPlaceholder":
+    "ルームIDをカンマ区切りで入力（例：ABC123, DEF456）",
+  "board.show": "表示",
+  "board.enterRoomIds": "表示するルームIDを入力してください",
+  "board.legend": "✔ は合意したレベル、色付きのセルは最新ラウンドの最多票です。",
+  "board.teamHint": "合意レベルは各ルームのボードで設定できます。",
+  "board.roomHint": "セルをクリックすると合意レベルを設定できます。",
+  "board.backToRoom": "＜ ルームに戻る",
+  "board.loadFailed": "ボードの読み込みに失敗しました",
+  "board.updateFailed": "合意レベルの更新に失敗しました",
+
+  // 結果の履歴・詳細
+  "results.title": "投票結果の履歴",
+  "results.searchPlaceholder": "テーマで検索",
+  "results.from": "開始日",
+  "results.to": "終了日",
+  "results.winningLevel": "1位のレベル",
+  "results.winningLevelAll": "1位のレベル：すべて",
+  "results.winningLevelOption": "1位のレベル：{level}",
+  "results.apply": "絞り込む",
+  "results.clear": "条件をクリア",
+  "results.empty": "条件に合う結果がありません",
+  "results.roundCount": "{count}ラウンド",
+  "results.loadMore": "さらに読み込む",
+  "results.scanCapped":
+    "読み込んだ範囲には、条件に合う結果はこれ以上ありません。さらに古い結果を探すには続けて読み込んでください",
+  "results.details": "詳細",
+  "results.reviewed": "（見直し済み：{roomId}）",
+  "results.decision": "決定：レベル {level} {title}",
+  "detail.notFound": "結果が見つかりませんでした",
+  "detail.backToHistory": "＜ 結果の履歴",
+  "detail.copyLink": "リンクをコピー",
+  "detail.notes": "理由・条件",
+  "detail.rationale": "判断の理由",
+  "detail.anonymousNote": "匿名のルームのため、誰の投票かは記録していません",
+  "detail.distribution": "票の分布",
+  "detail.stats": "統計",
+  "detail.otherRounds": "同じ議題の他のラウンド",
+  "detail.roundFallback": "ラウンド",
+  "detail.firstPlace": "1位 {levels}",
+};
+
+/**
+ * 翻訳のキー（日本語の辞書を基準にする）
+ */
+export type MessageKey = keyof typeof ja;
+
+const en: Record<MessageKey, Message> = {
+  "common.untitledTopic": "(No topic)",
+  "common.unset": "(Not set)",
+  "common.loading": "Loading...",
+  "common.close": "Close",
+  "common.cancel": "Cancel",
+  "common.backHome": "< Back to home",
+  "common.saveCsv": "Save as CSV",
+  "common.saveJson": "Save as JSON",
+  "common.print": "Print",
+  "common.roomId": "Room ID",
+  "common.roomIdValue": "Room ID: {roomId}",
+  "common.level": "Level {level}",
+  "common.owner": "Owner: {owner}",
+  "common.reviewDate": "Review date: {date}",
+  "common.decidedLevel": "Decided level",
+  "common.notVoted": "Not voted",
+  "common.online": "Online",
+  "common.offline": "Offline",
+  "common.tied": "Tied",
+  "common.topicIndex": "Topic {index}",
+  "common.round": "Round {round}",
+  "common.roundVote": "Round {round}",
+  "common.voteCount": { one: "{count} vote", other: "{count} votes" },
+  "common.cardCount": { one: "{count} card", other: "{count} cards" },
+  "common.extraCount": "{label}: {count}",
+  "common.percent": " ({percent}%)",
+  "common.parenthesized": " ({text})",
+  "common.listSeparator": ", ",
+  "common.enumSeparator": ", ",
+  "common.labelSeparator": ": ",
+  "common.votesByParticipant": "Votes by participant",
+  "common.participantSummary":
+    "{participants} participants / {online} online",
+  "common.observerSummary": " / {count} observing",
+  "common.loadResultsFailed": "Failed to load the results",
+  "common.exportResultsFailed": "Failed to export the results",
+  "common.language": "Language",
+
+  "stats.consensusScore": "Consensus",
+  "stats.mean": "Mean",
+  "stats.median": "Median",
+  "stats.min": "Min",
+  "stats.max": "Max",
+  "stats.stdDev": "Std. dev.",
+  "stats.voteCount": "Votes",
+  "stats.range": "Range {min}–{max}",
+  "consensus.unanimous": "Unanimous",
+  "consensus.close": "Nearly agreed (all votes within one level)",
+  "consensus.split": "Opinions are split",
+
+  "deck.custom": "Custom",
+
+  "import.format.lines": "one topic per line",
+  "import.format.csv": "CSV (first column)",
+  "import.format.markdown": "a Markdown list",
+  "import.summary": {
+    one: "Read as {format} · {count} topic",
+    other: "Read as {format} · {count} topics",
+  },
+  "import.duplicates": "Skipped as duplicates: {titles}",
+  "import.tooLong": "Skipped for exceeding {max} characters: {titles}",
+  "import.truncated": {
+    one: "Only the first column was used for {count} line: {lines}",
+    other: "Only the first column was used for {count} lines: {lines}",
+  },
+  "import.skipped": "Lines not read as topics: {lines}",
+  "import.placeholder": "Paste one topic per line, CSV or a Markdown checklist",
+  "import.placeholderExample":
+    "Paste one topic per line, CSV or a Markdown checklist\n- [ ] Final hiring decision\n- [ ] Budget allocation",
+
+  "review.icsSummary": "Delegation review: {title}",
+  "review.icsLevel": "Decided level: {level}",
+  "review.icsOwner": "Owner: {owner}",
+  "review.icsNotes": "Notes: {notes}",
+  "review.icsRoom": "Room: {roomId}",
+
+  "home.tagline": "Agree on who makes which decisions",
+  "home.pastResults": "View past results",
+  "home.teamBoard": "Team delegation board",
+  "home.reviewsTitle": "Decisions due for review",
+  "home.reviewsIcs": "Add review dates to your calendar (.ics)",
+  "home.reviewDue": "Review on {date}",
+  "home.overdue": " (overdue)",
+  "home.ownerInline": " · Owner: {owner}",
+  "home.reopen": "Review",
+  "home.creating": "Creating...",
+  "home.basicInfo": "Your details",
+  "home.yourName": "Your name",
+  "home.namePlaceholder": "Enter your name",
+  "home.signingIn": "Signing in...",
+  "home.anonymous": "You will join as an anonymous user",
+  "home.signedInAs": "Signed in as {name}",
+  "home.linking": "Linking...",
+  "home.linkGoogle": "Link a Google account",
+  "home.joinAs": "Join as",
+  "home.roleVoter": "Voter",
+  "home.roleObserver": "Observer (no vote)",
+  "home.createTitle": "Create a new room",
+  "home.bulkTopics": "Topics (bulk entry)",
+  "home.topic": "Delegation topic",
+  "home.singleTopic": "Enter a single topic",
+  "home.bulkToggle": "Enter several",
+  "home.topicPlaceholder": "Who decides on ...",
+  "home.cards": "Cards",
+  "home.editDeck": "Edit names and extra cards",
+  "home.levelTitle": "Name of level {level}",
+  "home.levelDescription": "Description of level {level}",
+  "home.extraCard": "\"{label}\" card",
+  "home.customRoomIdPlaceholder": "Room ID (optional, e.g. TEAM-A-Q3)",
+  "home.unlisted": "Hide from the room list",
+  "home.anonymousResults": "Don't keep participant names in results (anonymous)",
+  "home.closesIn": " (closes in {count}h due to inactivity)",
+  "home.passcodePlaceholder": "Join passcode (optional)",
+  "home.passcodeHint":
+    "With a passcode, people must enter it to join (at least {min} characters, not case-sensitive, {attempts} wrong attempts per person). Results are visible only to participants and are left out of the history and exports",
+  "home.idleTimeout": "Close after inactivity of",
+  "home.idleTimeoutHours": {
+    one: "{count} hour",
+    other: "{count} hours",
+  },
+  "home.idleTimeoutDays": {
+    one: "{count} day",
+    other: "{count} days",
+  },
+  "home.createRoom": "Create room",
+  "home.joinTitle": "Join an existing room",
+  "home.selectRoom": "(Select a room)",
+  "home.joining": "Joining...",
+  "home.joinRoom": "Join room",
+  "home.resultsTitle": "Results",
+  "home.searchAllResults": "Search all results",
+  "home.noResults": "No results yet.",
+  "home.error.linkFailed": "Failed to link the account",
+  "home.error.nameRequired": "Please enter your name",
+  "home.error.topicsRequired": "Please enter at least one topic",
+  "home.error.topicRequired": "Please enter a delegation topic",
+  "home.error.cardTitleRequired": "Please enter a name for every card",
+  "home.error.createFailed": "Failed to create the room",
+  "home.error.reopenFailed": "Failed to create the review room",
+  "home.error.roomIdRequired": "Please enter a room ID",
+  "home.error.roomIdInvalid":
+    "Room IDs must be {min}-{max} letters, digits and hyphens (e.g. TEAM-A-Q3)",
+  "home.error.roomIdTaken": "The room ID {roomId} is already in use",
+  "home.error.passcodeTooShort":
+    "The passcode must be at least {min} characters",
+  "home.error.roomNotFound": "Room not found",
+  "home.error.joinFailed": "Failed to join the room",
+
+  "join.title": "Join the room",
+  "join.submit": "Join",
+
+  "workspace.label": "Workspace",
+  "workspace.create": "New workspace",
+  "workspace.copyInvite": "Copy invite link",
+  "workspace.copied": "Copied",
+  "workspace.resetInvite": "Reset invite link",
+  "workspace.confirm.resetInvite":
+    "Reset the invite link? The current invite link will stop working (existing members stay)",
+  "workspace.none":
+    "Create a workspace or join one from an invite link to create rooms",
+  "workspace.prompt.name": "Workspace name (up to {max} characters)",
+  "workspace.joining": "Joining the workspace...",
+  "workspace.error.required": "Please select a workspace",
+  "workspace.error.createFailed": "Failed to create the workspace",
+  "workspace.error.resetInviteFailed": "Failed to reset the invite link",
+  "workspace.error.invalidInvite": "This invite link is invalid",
+  "workspace.error.joinFailed":
+    "Could not join the workspace. The invite link may be out of date",
+
+  "room.anonymous": "Anonymous",
+  "room.leftParticipant": "(left)",
+  "room.loading": "Loading the room...",
+  "room.copy": "Copy",
+  "room.invite": "Invite link & QR code",
+  "room.inviteQrAlt": "Invite QR code for room {roomId}",
+  "room.inviteHint": "People who open it enter their name before joining",
+  "room.copyInvite": "Copy link",
+  "room.inviteCopied": "Copied",
+  "room.duplicateName":
+    "Someone else in this room is also called \"{name}\". Please change your name so others can tell you apart",
+  "room.rename": "Change name",
+  "room.board": "Board",
+  "room.backToRooms": "< Back to rooms",
+  "room.agendaProgress": "Topic {index} / {total}",
+  "room.reviewOfTitle":
+    "Reviewing an earlier decision ({roomId}, review date {date})",
+  "room.reviewOfDecision": "Previous decision: level {level} {title}",
+  "room.reviewOfOwner": " (owner: {owner})",
+  "room.reviewOfRankings": "Previous ranking: ",
+  "room.reviewOfRank": "#{rank} {levels}",
+  "room.reviewOfRankCount": {
+    one: " ({count} vote)",
+    other: " ({count} votes)",
+  },
+  "room.reviewOfHidden": "The previous result is shown after the reveal",
+  "room.agenda": "Agenda",
+  "room.topicVoting": "Voting",
+  "room.topicRounds": {
+    one: "voted {count} time",
+    other: "voted {count} times",
+  },
+  "room.moveUp": "Move up",
+  "room.moveDown": "Move down",
+  "room.goToTopic": "Go to this topic",
+  "room.remove": "Remove",
+  "room.addTopicPlaceholder": "Add a topic",
+  "room.add": "Add",
+  "room.bulkAdd": "Add several",
+  "room.addToAgenda": "Add to agenda",
+  "room.selectLevel": "Choose a delegation level",
+  "room.comment": "Your reasoning (optional)",
+  "room.commentPlaceholder": "Why you chose this level",
+  "room.anonymousHint": "This room is anonymous, so reasons are recorded without names",
+  "room.status.observing": "● You are observing and cannot vote",
+  "room.status.pleaseVote": "● Please cast your vote",
+  "room.status.waiting": "● Waiting for voting to close",
+  "room.status.allVotedCountdown": "Everyone has voted · revealing in ",
+  "room.status.countdown": "Voting closes in ",
+  "room.status.closed": "● Voting is closed",
+  "room.participants": "Participants",
+  "room.joinVoting": "Join the vote",
+  "room.switchToObserver": "Switch to observer",
+  "room.participantCount": "Participants: {count}",
+  "room.notVotedCount": "(not voted: {count})",
+  "room.noOnlineParticipants": "No participants online",
+  "room.you": "(you)",
+  "room.youHost": "(you, host)",
+  "room.host": "Host",
+  "room.coHost": "Co-host",
+  "room.speaking": "🎤 Speaking",
+  "room.excluded": "Not counted",
+  "room.removeCoHost": "Remove co-host",
+  "room.makeCoHost": "Make co-host",
+  "room.transferHost": "Make host",
+  "room.removeParticipant": "Remove from room",
+  "room.claimHostLink": "Reclaim host with a recovery code",
+  "room.observerCount": "Observers: {count}",
+  "room.results": "Results",
+  "room.topTie":
+    "There is a tie for first place ({levels}, {count} votes each). Discuss and settle on a level",
+  "room.tieJoin": " and ",
+  "room.rank": "#{rank}",
+  "room.rankTied": "#{rank} (tied)",
+  "room.consensusScore": "{label} (consensus {score})",
+  "room.noVotes": "No votes",
+  "room.edit": "Edit",
+  "room.addToCalendar": "Add to calendar (.ics)",
+  "room.recordDiscussion": "Record the outcome of the discussion",
+  "room.recordDecision": "Record the decision",
+  "room.ownerPlaceholder": "Owner (optional)",
+  "room.notesPlaceholder": "Conditions / notes (optional)",
+  "room.reviewDate": "Review date",
+  "room.reviewDateHint": "Leave empty for no review",
+  "room.save": "Save",
+  "room.exportRoomResults": "Save this room's results:",
+  "room.speakingOrder": "Speaking order",
+  "room.suggestedSpeakingOrder": "Suggested speaking order",
+  "room.currentSpeaker": "🎤 Now speaking: ",
+  "room.startSpeaking": "Start in this order",
+  "room.previousSpeaker": "< Previous",
+  "room.nextSpeaker": "Next >",
+  "room.firstSpeaker": "Start over",
+  "room.claimCode": "Host recovery code: ",
+  "room.showClaimCode": "Show",
+  "room.claimCodeHint":
+    "Use this code to become host again from another device. Keep it somewhere safe.",
+  "room.excludeOffline": "Don't count votes from offline participants",
+  "room.removeOffline": "Remove offline participants ({count})",
+  "room.autoReveal":
+    "Close voting automatically once everyone online has voted ({sec}s grace period)",
+  "room.timer": "Timer: ",
+  "room.seconds": "{sec}s",
+  "room.secondsPlaceholder": "Seconds",
+  "room.start": "Start",
+  "room.cancelAutoReveal": "Cancel auto reveal",
+  "room.stopTimer": "Stop timer",
+  "room.reveal": "Close voting",
+  "room.revote": "Vote again on this topic",
+  "room.nextTopic": "Next topic",
+  "room.endRoom": "< End this session",
+  "room.alert.notFound": "Room not found",
+  "room.alert.noAccess": "You are not a member of this room's workspace",
+  "room.alert.wrongPasscode": "The passcode is incorrect",
+  "room.alert.passcodeLocked":
+    "You have used up your passcode attempts and can no longer join this room",
+  "room.alert.renameFailed": "Failed to change your name",
+  "room.alert.ended":
+    "The host has ended this session.\nReturning to the room selection.\n\nRoom ID: {roomId}",
+  "room.alert.endedIdle":
+    "This room was closed due to inactivity.\nReturning to the room selection.\n\nRoom ID: {roomId}",
+  "room.alert.removed":
+    "The host removed you from the room.\nReturning to the room selection.\n\nRoom ID: {roomId}",
+  "room.alert.voteFailed": "Failed to update your vote",
+  "room.alert.roleFailed": "Failed to change your role",
+  "room.alert.commentFailed": "Failed to save your reasoning",
+  "room.confirm.removeParticipant": "Remove {name} from the room?",
+  "room.alert.removeParticipantFailed": "Failed to remove the participant",
+  "room.confirm.removeOffline": {
+    one: "Remove {count} offline participant?\nTheir vote will be deleted too.",
+    other:
+      "Remove {count} offline participants?\nTheir votes will be deleted too.",
+  },
+  "room.alert.removeOfflineFailed": "Failed to remove offline participants",
+  "room.alert.settingsFailed": "Failed to update the setting",
+  "room.confirm.transferHost": "Make {name} the host?",
+  "room.alert.transferHostFailed": "Failed to change the host",
+  "room.alert.coHostFailed": "Failed to change the co-host",
+  "room.alert.noClaimCode": "This room has no host recovery code",
+  "room.prompt.claimCode": "Enter the host recovery code",
+  "room.prompt.passcode": {
+    one: "Enter the passcode to join this room (not case-sensitive, {count} attempt left)",
+    other:
+      "Enter the passcode to join this room (not case-sensitive, {count} attempts left)",
+  },
+  "room.prompt.rename": "Enter a new name",
+  "room.alert.wrongClaimCode": "The host recovery code is incorrect",
+  "room.alert.claimFailed": "Failed to reclaim the host role",
+  "room.alert.revealFailed": "Failed to reveal the results",
+  "room.alert.timerRange": "Please enter between 1 and {max} seconds",
+  "room.alert.timerStartFailed": "Failed to start the timer",
+  "room.alert.timerStopFailed": "Failed to stop the timer",
+  "room.alert.speakingStartFailed": "Failed to start the speaking order",
+  "room.alert.speakerFailed": "Failed to change the speaker",
+  "room.confirm.nextRound": "Reset everyone's votes and start the next round?",
+  "room.alert.resetFailed": "Failed to reset the votes",
+  "room.alert.decisionLevelRequired": "Please choose the agreed level",
+  "room.alert.decisionFailed": "Failed to record the decision",
+  "room.alert.topicTooLong": "Topics must be {max} characters or fewer",
+  "room.alert.addTopicFailed": "Failed to add the topic",
+  "room.alert.moveTopicFailed": "Failed to reorder the topics",
+  "room.confirm.removeTopic": "Remove the topic \"{title}\"?",
+  "room.alert.removeTopicFailed": "Failed to remove the topic",
+  "room.confirm.goToTopic":
+    "Move on to the topic \"{title}\"?\nEveryone's votes will be reset.",
+  "room.alert.goToTopicFailed": "Failed to switch topics",
+  "room.confirm.endRoom":
+    "End this session?\nAll other participants will leave the room.\n\nRoom ID: {roomId}",
+  "room.alert.endRoomFailed": "Failed to end the session",
+
+  "board.noTopics": "No topics",
+  "board.topic": "Topic",
+  "board.clickToDecide": "Click to set as the agreed level",
+  "board.agreedLevel": "Agreed level",
+  "board.title": "Delegation board",
+  "board.teamTitle": "Team delegation board",
+  "board.roomIdsPlaceholder":
+    "Enter room IDs separated by commas (e.g. ABC123, DEF456)",
+  "board.show": "Show",
+  "board.enterRoomIds": "Enter the room IDs to show",
+  "board.legend":
+    "✔ marks the agreed level; shaded cells are the most voted level in the latest round. ",
+  "board.teamHint": "Set the agreed level on each room's board.",
+  "board.roomHint": "Click a cell to set the agreed level.",
+  "board.backToRoom": "< Back to room",
+  "board.loadFailed": "Failed to load the board",
+  "board.updateFailed": "Failed to update the agreed level",
+
+  "results.title": "Voting history",
+  "results.searchPlaceholder": "Search topics",
+  "results.from": "From",
+  "results.to": "To",
+  "results.winningLevel": "Top level",
+  "results.winningLevelAll": "Top level: all",
+  "results.winningLevelOption": "Top level: {level}",
+  "results.apply": "Filter",
+  "results.clear": "Clear filters",
+  "results.empty": "No results match these filters",
+  "results.roundCount": { one: "{count} round", other: "{count} rounds" },
+  "results.loadMore": "Load more",
+  "results.scanCapped":
+    "No more matches in the range scanned so far. Load more to search older results.",
+  "results.details": "Details",
+  "results.reviewed": " (reviewed in {roomId})",
+  "results.decision": "Decision: level {level} {title}",
+  "detail.notFound": "Result not found",
+  "detail.backToHistory": "< Voting history",
+  "detail.copyLink": "Copy link",
+  "detail.notes": "Reasons / conditions",
+  "detail.rationale": "Reasoning behind the votes",
+  "detail.anonymousNote": "This room is anonymous, so who voted what was not recorded",
+  "detail.distribution": "Vote distribution",
+  "detail.stats": "Statistics",
+  "detail.otherRounds": "Other rounds on this topic",
+  "detail.roundFallback": "Round",
+  "detail.firstPlace": "Top: {levels}",
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, Message>> = { ja, en };
+
+/**
+ * 対応している言語か
+ */
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/**
+ * 表示する言語を決める（保存した言語 → ブラウザの Accept-Language → 既定）
+ */
+export function resolveLocale(
+  saved: string | null | undefined,
+  acceptLanguage: string | null | undefined
+): Locale {
+  if (isLocale(saved)) return saved;
+
+  const preferred = (acceptLanguage ?? "")
+    .split(",")
+    .map((part) => part.split(";")[0].trim().toLowerCase().split("-")[0]);
+  return preferred.find(isLocale) ?? DEFAULT_LOCALE;
+}
+
+/**
+ * 翻訳文を取得し、{name} を params の値で置き換える
+ * params.count があれば one / other を使い分ける
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params?: Record<string, string | number>
+): string {
+  const message = MESSAGES[locale][key] ?? MESSAGES[DEFAULT_LOCALE][key];
+  const text =
+    typeof message === "string"
+      ? message
+      : message[
+          new Intl.PluralRules(DATE_LOCALES[locale]).select(
+            Number(params?.count ?? 0)
+          ) === "one"
+            ? "one"
+            : "other"
+        ];
+
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
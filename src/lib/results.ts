@@ -0,0 +1,189 @@
+// src/lib/results.ts
+import type { Timestamp } from "firebase/firestore";
+import { cardLabel, getDeck, mergeDeckLevels } from "./deck";
+import type { VoteResultEntry } from "./votes";
+
+/**
+ * 結果履歴ページの設定
+ */
+export const RESULTS_CONFIG = {
+  // 1回の読み込み件数
+  PAGE_SIZE: 50,
+  // テーマで絞り込むとき、1回の操作で続けて読み込むページ数の上限
+  MAX_PAGES_PER_LOAD: 5,
+  // 書き出し時に1回で読み込む件数
+  EXPORT_PAGE_SIZE: 500,
+} as const;
+
+/**
+ * 結果履歴の絞り込み条件（URL のクエリと対応）
+ * roomId・日付・レベルはクエリで、テーマは読み込んだ結果に対して絞り込む
+ */
+export interface ResultFilters {
+  // テーマの部分一致
+  text: string;
+  roomId: string;
+  // YYYY-MM-DD（両端を含む）
+  from: string;
+  to: string;
+  // 1位のレベル
+  level: number | null;
+}
+
+/**
+ * URL のクエリから絞り込み条件を読み取る
+ */
+export function parseResultFilters(params: URLSearchParams): ResultFilters {
+  const level = Number(params.get("level"));
+  return {
+    text: params.get("q") ?? "",
+    roomId: (params.get("room") ?? "").trim().toUpperCase(),
+    from: params.get("from") ?? "",
+    to: params.get("to") ?? "",
+    level: Number.isInteger(level) && level > 0 ? level : null,
+  };
+}
+
+/**
+ * 絞り込み条件を URL のクエリにする（空の条件は含めない）
+ */
+export function toResultFilterQuery(filters: ResultFilters): string {
+  const params = new URLSearchParams();
+  if (filters.text.trim()) params.set("q", filters.text.trim());
+  if (filters.roomId) params.set("room", filters.roomId);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (filters.level != null) params.set("level", String(filters.level));
+  return params.toString();
+}
+
+/**
+ * 1位のレベル（同票なら複数）
+ */
+export function getWinningLevels(r: VoteResultEntry): number[] {
+  return r.rankings.find((g) => g.rank === 1)?.values ?? [];
+}
+
+/**
+ * テーマの条件に合うか（roomId・日付・レベルはクエリ側で絞り込む）
+ */
+export function matchesResultFilters(
+  r: VoteResultEntry,
+  filters: ResultFilters
+): boolean {
+  const text = filters.text.trim().toLowerCase();
+  return !text || r.topic.toLowerCase().includes(text);
+}
+
+/**
+ * 同じルーム・同じ議題のラウンドのまとまり
+ */
+export interface ResultGroup {
+  key: string;
+  roomId: string;
+  topic: string;
+  // ラウンド順（古い順）
+  results: VoteResultEntry[];
+}
+
+/**
+ * 結果をルーム・議題ごとにまとめる（グループの順は最新の結果順のまま）
+ * 議題IDの無い旧データはテーマ名でまとめる
+ */
+export function groupResults(results: VoteResultEntry[]): ResultGroup[] {
+  const groups = new Map<string, ResultGroup>();
+
+  for (const r of results) {
+    const key = `${r.roomId}:${r.topicId ?? r.topic}`;
+    const group = groups.get(key);
+    if (group) {
+      group.results.push(r);
+    } else {
+      groups.set(key, { key, roomId: r.roomId, topic: r.topic, results: [r] });
+    }
+  }
+
+  return Array.from(groups.values()).map((group) => ({
+    ...group,
+    results: [...group.results].sort(
+      (a, b) =>
+        (a.round ?? 0) - (b.round ?? 0) ||
+        (a.votedAt?.toMillis() ?? 0) - (b.votedAt?.toMillis() ?? 0)
+    ),
+  }));
+}
+
+// Firestore の日時を ISO 8601 にする（未設定なら null）
+const toIso = (ts: Timestamp | null | undefined) =>
+  ts ? ts.toDate().toISOString() : null;
+
+/**
+ * 結果を CSV 用の行にする（1行目は見出し、日時は ISO 8601）
+ * レベルの列は結果に含まれるデッキのレベルをまとめたもの
+ */
+export function resultsToCsvRows(results: VoteResultEntry[]): unknown[][] {
+  const values = mergeDeckLevels(results.map(getDeck)).map((l) => l.level);
+  return [
+    [
+      "id",
+      "votedAt",
+      "roomId",
+      "topic",
+      "agendaIndex",
+      "round",
+      ...values.map((v) => `level${v}`),
+      "extraCards",
+      "winners",
+      "participantCount",
+      "mean",
+      "median",
+      "consensusScore",
+      "decisionLevel",
+      "decisionOwner",
+      "decisionNotes",
+      "reviewDate",
+      "decidedAt",
+    ],
+    ...results.map((r) => [
+      r.id,
+      toIso(r.votedAt) ?? "",
+      r.roomId,
+      r.topic,
+      r.agendaIndex ?? "",
+      r.round ?? "",
+      ...values.map((v) => r.counts?.[v] ?? ""),
+      Object.entries(r.extraCounts ?? {})
+        .filter(([, count]) => count > 0)
+        .map(([id, count]) => `${cardLabel(getDeck(r), id)}:${count}`)
+        .join(" "),
+      getWinningLevels(r).join(" "),
+      r.participantCount ?? "",
+      r.stats?.mean ?? "",
+      r.stats?.median ?? "",
+      r.stats?.consensusScore ?? "",
+      r.decision?.level ?? "",
+      r.decision?.owner ?? "",
+      r.decision?.notes ?? "",
+      r.decision?.reviewDate ?? "",
+      toIso(r.decision?.decidedAt) ?? "",
+    ]),
+  ];
+}
+
+/**
+ * 結果を JSON にする（スクリプト向け。日時は ISO 8601）
+ */
+export function resultsToJson(results: VoteResultEntry[]): string {
+  return JSON.stringify(
+    results.map((r) => ({
+      ...r,
+      winners: getWinningLevels(r),
+      votedAt: toIso(r.votedAt),
+      decision: r.decision
+        ? { ...r.decision, decidedAt: toIso(r.decision.decidedAt) }
+        : null,
+    })),
+    null,
+    2
+  );
+}
@@ -0,0 +1,170 @@
+// src/lib/review.ts
+import { DEFAULT_LOCALE, translate, type Locale } from "./i18n";
+import type { RankGroup, VoteCounts, VoteResultEntry } from "./votes";
+
+/**
+ * 決定の見直しに関する設定
+ */
+export const REVIEW_CONFIG = {
+  // 見直し日の初期値（決定から何か月後か）
+  DEFAULT_MONTHS: 3,
+  // この日数以内に見直し日が来るものを「見直し予定」に表示する
+  DUE_SOON_DAYS: 14,
+} as const;
+
+/**
+ * 見直しのために作ったルームに保存する、前回の結果（比較用）
+ */
+export interface ReviewSource {
+  resultId: string;
+  roomId: string;
+  topic: string;
+  level: number;
+  notes: string;
+  owner: string;
+  rankings: RankGroup[];
+  counts: VoteCounts | null;
+  reviewDate: string;
+}
+
+/**
+ * Date をローカル日付のキー（YYYY-MM-DD）にする
+ */
+export function toDateKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * 今日から指定日数後の日付キー
+ */
+export function dateKeyAfterDays(days: number, from = new Date()): string {
+  const d = new Date(from);
+  d.setDate(d.getDate() + days);
+  return toDateKey(d);
+}
+
+/**
+ * 見直し日の初期値（今日から DEFAULT_MONTHS か月後）
+ */
+export function defaultReviewDate(from = new Date()): string {
+  const d = new Date(from);
+  d.setMonth(d.getMonth() + REVIEW_CONFIG.DEFAULT_MONTHS);
+  return toDateKey(d);
+}
+
+/**
+ * 見直しが必要な結果か（決定に見直し日があり、まだ見直しのルームを作っていない）
+ */
+export function isPendingReview(r: VoteResultEntry): boolean {
+  return !!r.decision?.reviewDate && !r.reviewRoomId;
+}
+
+/**
+ * 見直し用ルームに保存する前回の結果
+ */
+export function toReviewSource(r: VoteResultEntry): ReviewSource | null {
+  if (!r.decision?.reviewDate) return null;
+  return {
+    resultId: r.id,
+    roomId: r.roomId,
+    topic: r.topic,
+    level: r.decision.level,
+    notes: r.decision.notes,
+    owner: r.decision.owner,
+    rankings: r.rankings,
+    counts: r.counts,
+    reviewDate: r.decision.reviewDate,
+  };
+}
+
+// iCalendar のテキスト値をエスケープ
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// iCalendar の1行の上限（CRLF を除く、UTF-8 のバイト数）
+const ICS_LINE_MAX_OCTETS = 75;
+
+// 長い行を折り返す（CRLF と空白で続け、UTF-8 の文字の途中では切らない）
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // 続きの行は先頭の空白の分だけ短くする
+    const max =
+      parts.length === 0 ? ICS_LINE_MAX_OCTETS : ICS_LINE_MAX_OCTETS - 1;
+    if (octets + size > max) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * 見直し日を終日の予定にした iCalendar (.ics) を作る（予定の文言は locale の言語）
+ */
+export function buildReviewIcs(
+  results: Pick<VoteResultEntry, "id" | "roomId" | "topic" | "decision">[],
+  origin: string,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+  const events = results.flatMap((r) => {
+    const date = r.decision?.reviewDate;
+    if (!r.decision || !date) return [];
+
+    const start = date.replace(/-/g, "");
+    const next = new Date(`${date}T00:00:00`);
+    next.setDate(next.getDate() + 1);
+    const end = toDateKey(next).replace(/-/g, "");
+    const title = r.topic.trim() || translate(locale, "common.untitledTopic");
+    const description = [
+      translate(locale, "review.icsLevel", { level: r.decision.level }),
+      r.decision.owner &&
+        translate(locale, "review.icsOwner", { owner: r.decision.owner }),
+      r.decision.notes &&
+        translate(locale, "review.icsNotes", { notes: r.decision.notes }),
+      translate(locale, "review.icsRoom", { roomId: r.roomId }),
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    return [
+      "BEGIN:VEVENT",
+      `UID:${r.id}@delegation-poker`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${start}`,
+      `DTEND;VALUE=DATE:${end}`,
+      `SUMMARY:${escapeIcsText(translate(locale, "review.icsSummary", { title }))}`,
+      `DESCRIPTION:${escapeIcsText(description)}`,
+      `URL:${origin}/`,
+      "END:VEVENT",
+    ];
+  });
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//Delegation Poker//Review//${locale.toUpperCase()}`,
+    "CALSCALE:GREGORIAN",
+    ...events,
+    "END:VCALENDAR",
+  ];
+  // 各行を CRLF で終える（最後の行も含む）
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
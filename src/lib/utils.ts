@@ -1,4 +1,6 @@
 // src/lib/utils.ts
+import type { Timestamp } from "firebase/firestore";
+import { DATE_LOCALES, DEFAULT_LOCALE, type Locale } from "./i18n";
 
 /**
  * UUIDを生成する（crypto.randomUUID()があれば使用、なければフォールバック）
@@ -15,54 +17,132 @@ export function generateUUID(): string {
   });
 }
 
+// 読み違えやすい文字（0/O・1/I）を除いた英数字
+const READABLE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+// 読み違えやすい文字を除いたランダムな文字列
+const randomReadableString = (length: number): string => {
+  const values = new Uint32Array(length);
+  crypto.getRandomValues(values);
+  return Array.from(
+    values,
+    (v) => READABLE_CHARS[v % READABLE_CHARS.length]
+  ).join("");
+};
+
+/**
+ * ルームIDの定数
+ */
+export const ROOM_ID_CONFIG = {
+  // 自動で作るIDの文字数
+  LENGTH: 6,
+  // 自分で決めるID（例: TEAM-A-Q3）の文字数
+  CUSTOM_MIN_LENGTH: 3,
+  CUSTOM_MAX_LENGTH: 20,
+  // 自動で作るIDが使用中だった場合に作り直す回数の上限
+  MAX_ATTEMPTS: 5,
+} as const;
+
 /**
- * ルームIDを生成（6文字のランダム文字列）
+ * ルームIDを生成（6文字、読み違えやすい文字を除く）
  */
 export function generateRoomId(): string {
-  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
-  let result = "";
-  for (let i = 0; i < 6; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return result;
+  return randomReadableString(ROOM_ID_CONFIG.LENGTH);
 }
 
 /**
- * 参加者IDを取得または生成（localStorage: dp_participant_id）
+ * 入力されたルームIDをそろえる（前後の空白を除き大文字にする）
  */
-export function getOrCreateParticipantId(): string {
+export function normalizeRoomId(input: string): string {
+  return input.trim().toUpperCase();
+}
+
+/**
+ * 自分で決めるルームIDとして使えるか（英大文字・数字をハイフンでつないだもの）
+ */
+export function isValidCustomRoomId(roomId: string): boolean {
+  return (
+    roomId.length >= ROOM_ID_CONFIG.CUSTOM_MIN_LENGTH &&
+    roomId.length <= ROOM_ID_CONFIG.CUSTOM_MAX_LENGTH &&
+    /^[A-Z0-9]+(-[A-Z0-9]+)*$/.test(roomId)
+  );
+}
+
+/**
+ * ホスト復帰コードを生成（8文字、読み違えやすい文字を除く）
+ */
+export function generateClaimCode(): string {
+  return randomReadableString(8);
+}
+
+/**
+ * ホスト復帰コードのハッシュ（SHA-256 の16進文字列）
+ * ルームにはハッシュだけを保存し、コード自体は作成したホストの端末にのみ残す
+ */
+export async function hashClaimCode(code: string): Promise<string> {
+  const data = new TextEncoder().encode(code.trim().toUpperCase());
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * 参加パスコードの長さと入力回数の上限
+ * 大文字・小文字は区別しない（ハッシュにする前に大文字にそろえる）
+ */
+export const PASSCODE_CONFIG = {
+  MIN_LENGTH: 4,
+  MAX_LENGTH: 20,
+  // 1人が間違えられる回数（firestore.rules の上限と合わせる）
+  MAX_ATTEMPTS: 5,
+} as const;
+
+/**
+ * ホスト復帰コードを取得（localStorage: dp_host_claim_{roomId}）
+ */
+export function getClaimCode(roomId: string): string | null {
   if (typeof window === "undefined") {
-    return generateUUID();
+    return null;
   }
+  return localStorage.getItem(`dp_host_claim_${roomId}`);
+}
 
-  const stored = localStorage.getItem("dp_participant_id");
-  if (stored) {
-    return stored;
+/**
+ * ホスト復帰コードを保存（localStorage: dp_host_claim_{roomId}）
+ */
+export function setClaimCode(roomId: string, code: string): void {
+  if (typeof window === "undefined") {
+    return;
   }
-
-  const participantId = generateUUID();
-  localStorage.setItem("dp_participant_id", participantId);
-  return participantId;
+  localStorage.setItem(`dp_host_claim_${roomId}`, code);
 }
 
 /**
- * ホストIDを取得（localStorage: dp_host_id_{roomId}）
+ * 最後に使った名前を取得（localStorage: dp_last_name）
  */
-export function getHostId(roomId: string): string | null {
+export function getLastUserName(): string | null {
   if (typeof window === "undefined") {
     return null;
   }
-  return localStorage.getItem(`dp_host_id_${roomId}`);
+  return localStorage.getItem("dp_last_name");
 }
 
 /**
- * ホストIDを保存（localStorage: dp_host_id_{roomId}）
+ * 最後に使った名前を保存（localStorage: dp_last_name）
  */
-export function setHostId(roomId: string, hostId: string): void {
+export function setLastUserName(name: string): void {
   if (typeof window === "undefined") {
     return;
   }
-  localStorage.setItem(`dp_host_id_${roomId}`, hostId);
+  localStorage.setItem("dp_last_name", name);
+}
+
+/**
+ * 名前の比較用（前後の空白と大文字・小文字の違いを無視する）
+ */
+export function normalizeUserName(name: string): string {
+  return name.trim().toLowerCase();
 }
 
 /**
@@ -75,8 +155,53 @@ export const PRESENCE_CONFIG = {
   OFFLINE_THRESHOLD_MS: 30000, // 30秒
 } as const;
 
-// GETパラメータにURLを追加する処理
-export const withName = (path: string, name: string) => {
+/**
+ * 投票タイマーの定数
+ */
+export const TIMER_CONFIG = {
+  // ホストが選べるプリセット（秒）
+  PRESETS_SEC: [60, 90, 120],
+  // 自由入力の上限（秒）
+  MAX_DURATION_SEC: 3600,
+  // ホスト以外のクライアントが自動公開を試みるまでの猶予（ミリ秒）
+  AUTO_REVEAL_GRACE_MS: 3000,
+  // 全員投票後、自動公開するまでの猶予（秒、firestore.rules の値と合わせる）
+  ALL_VOTED_DELAY_SEC: 5,
+} as const;
+
+/**
+ * 残り時間（ミリ秒）を m:ss 形式にする
+ */
+export function formatRemaining(ms: number): string {
+  const totalSec = Math.max(0, Math.ceil(ms / 1000));
+  const min = Math.floor(totalSec / 60);
+  const sec = totalSec % 60;
+  return `${min}:${String(sec).padStart(2, "0")}`;
+}
+
+/**
+ * Firestore の日時を表示する言語の日付・時刻の形式にする（未設定なら空文字）
+ */
+export function formatDate(
+  ts: Timestamp | null | undefined,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  if (!ts) return "";
+  return ts.toDate().toLocaleString(DATE_LOCALES[locale], {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// GETパラメータを追加する処理
+export const withQuery = (path: string, key: string, value: string) => {
   const sep = path.includes("?") ? "&" : "?";
-  return `${path}${sep}name=${encodeURIComponent(name)}`;
+  return `${path}${sep}${key}=${encodeURIComponent(value)}`;
 };
+
+// GETパラメータに名前を追加する処理
+export const withName = (path: string, name: string) =>
+  withQuery(path, "name", name);
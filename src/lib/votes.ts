@@ -0,0 +1,359 @@
+// src/lib/votes.ts
+import type { DocumentData, Timestamp } from "firebase/firestore";
+import {
+  DEFAULT_DECK,
+  getLevelValues,
+  type CardValue,
+  type Deck,
+} from "./deck";
+
+/**
+ * レベルごとの票数（value -> count）
+ */
+export type VoteCounts = Record<number, number>;
+
+/**
+ * 追加カードごとの枚数（カード id -> count）
+ */
+export type ExtraCardCounts = Record<string, number>;
+
+/**
+ * 参加者の役割（observer は観戦のみで投票・集計の対象外）
+ */
+export type ParticipantRole = "voter" | "observer";
+
+/**
+ * URL などから受け取った役割を検証する（未指定・不正な値は null）
+ */
+export function parseParticipantRole(
+  value: string | null | undefined
+): ParticipantRole | null {
+  return value === "voter" || value === "observer" ? value : null;
+}
+
+/**
+ * 投票の定数
+ */
+export const VOTE_CONFIG = {
+  // 判断の理由（コメント）の最大文字数（firestore.rules の上限と合わせる）
+  COMMENT_MAX_LENGTH: 200,
+} as const;
+
+/**
+ * 参加者ごとの投票内容
+ * 匿名のルームでは participantId・name を空にして保存する
+ */
+export interface ParticipantVote {
+  participantId: string;
+  name: string;
+  card: CardValue | null;
+  online: boolean;
+  // 判断の理由（未入力・旧データでは空）
+  comment: string;
+}
+
+/**
+ * 合意度の区分
+ * unanimous: 全員が同じレベル / close: 全票が隣接1レベル以内 / split: それ以上に割れている
+ */
+export type ConsensusLevel = "unanimous" | "close" | "split";
+
+/**
+ * 投票の統計値（票が無い場合は computeVoteStats が null を返す）
+ */
+export interface VoteStats {
+  voteCount: number;
+  mean: number;
+  median: number;
+  min: number;
+  max: number;
+  stdDev: number;
+  // 0〜100。標準偏差が最大（3）のとき 0、全員一致で 100
+  consensusScore: number;
+  consensus: ConsensusLevel;
+}
+
+/**
+ * 同じ順位に並んだレベルのまとまり（同票なら values が複数）
+ * 旧データから復元した場合は票数が分からないため count は null
+ */
+export interface RankGroup {
+  rank: number;
+  values: number[];
+  count: number | null;
+}
+
+/**
+ * 話し合いの後にホストが記録する決定事項
+ */
+export interface Decision {
+  level: number;
+  // 条件やメモ
+  notes: string;
+  // 決定の担当者
+  owner: string;
+  // 見直し日（YYYY-MM-DD）。見直さない場合は null
+  reviewDate: string | null;
+  decidedBy: string;
+  decidedAt: Timestamp | null;
+}
+
+/**
+ * vote_results に保存する1ラウンド分の記録
+ * counts 以降は後から追加した項目のため、旧データでは null / 空になる
+ */
+export interface VoteResult {
+  roomId: string;
+  // ルームが属するワークスペース（ワークスペース機能より前のデータでは null）
+  workspaceId: string | null;
+  // パスコードのあるルームの結果（参加者とホスト・共同ホストのみ読め、ワークスペース全体の一覧には含めない）
+  hasPasscode: boolean;
+  // 匿名のルームの結果（参加者ごとの名前を残さない）
+  anonymous: boolean;
+  topic: string;
+  // 議題ID と議題の並び順（1始まり）。議題機能より前のデータでは null
+  topicId: string | null;
+  agendaIndex: number | null;
+  // 旧形式との互換用。同票の順位は null で保存する（正しい順位は rankings を参照）
+  first: number | null;
+  second: number | null;
+  third: number | null;
+  // 3位までの順位（同票を含む）
+  rankings: RankGroup[];
+  // 1位のレベル（同票なら複数）。レベルでの絞り込みに使う
+  winners: number[];
+  counts: VoteCounts | null;
+  extraCounts: ExtraCardCounts | null;
+  // 投票に使ったデッキ（旧データでは null = 既定のデッキ）
+  deck: Deck | null;
+  votes: ParticipantVote[];
+  // 投票者（observer を除く）の人数
+  participantCount: number | null;
+  onlineCount: number | null;
+  observerCount: number | null;
+  round: number | null;
+  stats: VoteStats | null;
+  // 記録された決定（未記録なら null）
+  decision: Decision | null;
+  // 見直しのために作ったルーム（未作成なら null）
+  reviewRoomId: string | null;
+  votedAt: Timestamp | null;
+}
+
+export type VoteResultEntry = VoteResult & { id: string };
+
+/**
+ * 投票結果を集計する（デッキの全レベルを 0 で初期化、追加カードは含めない）
+ */
+export function tallyVotes(
+  participants: { selectedCard: CardValue | null }[],
+  deck: Deck = DEFAULT_DECK
+): VoteCounts {
+  const counts: VoteCounts = Object.fromEntries(
+    getLevelValues(deck).map((v) => [v, 0])
+  ) as VoteCounts;
+
+  for (const p of participants) {
+    if (typeof p.selectedCard === "number")
+      counts[p.selectedCard] = (counts[p.selectedCard] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * 追加カード（「?」など）の枚数を集計する
+ */
+export function tallyExtraCards(
+  participants: { selectedCard: CardValue | null }[],
+  deck: Deck = DEFAULT_DECK
+): ExtraCardCounts {
+  const counts: ExtraCardCounts = Object.fromEntries(
+    deck.extras.map((e) => [e.id, 0])
+  );
+
+  for (const p of participants) {
+    if (typeof p.selectedCard === "string")
+      counts[p.selectedCard] = (counts[p.selectedCard] ?? 0) + 1;
+  }
+  return counts;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * 集計結果から統計値を計算する
+ */
+export function computeVoteStats(
+  counts: VoteCounts,
+  deck: Deck = DEFAULT_DECK
+): VoteStats | null {
+  const levelValues = getLevelValues(deck);
+  const values: number[] = [];
+  for (const v of levelValues) {
+    for (let i = 0; i < (counts[v] ?? 0); i++) values.push(v);
+  }
+  if (values.length === 0) return null;
+
+  const n = values.length;
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const mid = Math.floor(n / 2);
+  const median = n % 2 === 0 ? (values[mid - 1] + values[mid]) / 2 : values[mid];
+  const min = values[0];
+  const max = values[n - 1];
+  const stdDev = Math.sqrt(
+    values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / n
+  );
+  const maxStdDev = (levelValues[levelValues.length - 1] - levelValues[0]) / 2;
+  const consensusScore =
+    maxStdDev > 0
+      ? Math.round(Math.max(0, 1 - stdDev / maxStdDev) * 100)
+      : 100;
+  const spread = max - min;
+  const consensus: ConsensusLevel =
+    spread === 0 ? "unanimous" : spread <= 1 ? "close" : "split";
+
+  return {
+    voteCount: n,
+    mean: round2(mean),
+    median,
+    min,
+    max,
+    stdDev: round2(stdDev),
+    consensusScore,
+    consensus,
+  };
+}
+
+/**
+ * 票数で順位付けする（同票は同順位、次の順位は人数分飛ばす: 1, 1, 3 ...）
+ * 票の無いレベルは含めない
+ */
+export function rankVotes(
+  counts: VoteCounts,
+  deck: Deck = DEFAULT_DECK
+): RankGroup[] {
+  const groups: RankGroup[] = [];
+  const sorted = getLevelValues(deck)
+    .map((v) => ({ value: v, count: counts[v] ?? 0 }))
+    .filter((item) => item.count > 0)
+    .sort((a, b) => b.count - a.count || a.value - b.value);
+
+  let position = 0;
+  for (const item of sorted) {
+    position++;
+    const last = groups[groups.length - 1];
+    if (last && last.count === item.count) {
+      last.values.push(item.value);
+    } else {
+      groups.push({ rank: position, values: [item.value], count: item.count });
+    }
+  }
+  return groups;
+}
+
+/**
+ * 旧形式（first/second/third）用の値。同票の順位は null にする
+ */
+export function toLegacyPodium(rankings: RankGroup[]) {
+  const getRankValue = (rank: number) => {
+    const group = rankings.find((g) => g.rank === rank);
+    return group && group.values.length === 1 ? group.values[0] : null;
+  };
+
+  return {
+    first: getRankValue(1),
+    second: getRankValue(2),
+    third: getRankValue(3),
+  };
+}
+
+/**
+ * 公開後の発言順を提案する（participantId の配列）
+ * 最小・最大のカードを出した人を交互に先頭へ並べ、残りは中央値から遠い順
+ * 追加カード（「?」など）を出した人は最後に並べる
+ */
+export function buildSpeakingOrder(
+  participants: { participantId: string; selectedCard: CardValue | null }[],
+  deck: Deck = DEFAULT_DECK
+): string[] {
+  const voters = participants.filter(
+    (p): p is { participantId: string; selectedCard: number } =>
+      typeof p.selectedCard === "number"
+  );
+  const extras = participants
+    .filter((p) => typeof p.selectedCard === "string")
+    .map((p) => p.participantId);
+  if (voters.length === 0) return extras;
+
+  const stats = computeVoteStats(tallyVotes(voters, deck), deck);
+  if (!stats || stats.min === stats.max) {
+    return [...voters.map((p) => p.participantId), ...extras];
+  }
+
+  const lows = voters.filter((p) => p.selectedCard === stats.min);
+  const highs = voters.filter((p) => p.selectedCard === stats.max);
+  const order: string[] = [];
+  for (let i = 0; i < Math.max(lows.length, highs.length); i++) {
+    if (lows[i]) order.push(lows[i].participantId);
+    if (highs[i]) order.push(highs[i].participantId);
+  }
+
+  const rest = voters
+    .filter((p) => p.selectedCard !== stats.min && p.selectedCard !== stats.max)
+    .sort(
+      (a, b) =>
+        Math.abs(b.selectedCard - stats.median) -
+        Math.abs(a.selectedCard - stats.median)
+    );
+  return [...order, ...rest.map((p) => p.participantId), ...extras];
+}
+
+/**
+ * Firestore のドキュメントを VoteResult に変換（旧形式のデータにも対応）
+ */
+export function parseVoteResult(id: string, data: DocumentData): VoteResultEntry {
+  const first = data.first ?? null;
+  const second = data.second ?? null;
+  const third = data.third ?? null;
+
+  // rankings の無い旧データは first/second/third から復元
+  const rankings: RankGroup[] = Array.isArray(data.rankings)
+    ? data.rankings
+    : [first, second, third].flatMap((value, index) =>
+        value != null ? [{ rank: index + 1, values: [value], count: null }] : []
+      );
+
+  return {
+    id,
+    roomId: data.roomId ?? "",
+    workspaceId: data.workspaceId ?? null,
+    hasPasscode: data.hasPasscode ?? false,
+    anonymous: data.anonymous ?? false,
+    topic: data.topic ?? "",
+    topicId: data.topicId ?? null,
+    agendaIndex: data.agendaIndex ?? null,
+    first,
+    second,
+    third,
+    rankings,
+    winners: Array.isArray(data.winners)
+      ? data.winners
+      : (rankings.find((g) => g.rank === 1)?.values ?? []),
+    counts: data.counts ?? null,
+    extraCounts: data.extraCounts ?? null,
+    deck: data.deck ?? null,
+    votes: Array.isArray(data.votes)
+      ? data.votes.map((v: ParticipantVote) => ({ ...v, comment: v.comment ?? "" }))
+      : [],
+    participantCount: data.participantCount ?? null,
+    onlineCount: data.onlineCount ?? null,
+    observerCount: data.observerCount ?? null,
+    round: data.round ?? null,
+    stats: data.stats ?? null,
+    decision: data.decision
+      ? { ...data.decision, reviewDate: data.decision.reviewDate ?? null }
+      : null,
+    reviewRoomId: data.reviewRoomId ?? null,
+    votedAt: data.votedAt ?? null,
+  };
+}
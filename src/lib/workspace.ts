@@ -0,0 +1,158 @@
+// src/lib/workspace.ts
+import { useEffect, useState } from "react";
+import {
+  arrayUnion,
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+  type Timestamp,
+} from "firebase/firestore";
+import { db } from "./firebase";
+import { generateClaimCode } from "./utils";
+
+/**
+ * ワークスペース（チーム）。ルームと投票結果はワークスペースに属し、メンバーだけが読める
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  ownerId: string;
+  memberIds: string[];
+  // 招待リンクのコード（メンバーだけが読める）
+  inviteCode: string;
+  createdAt: Timestamp | null;
+}
+
+/**
+ * ワークスペースの定数
+ */
+export const WORKSPACE_CONFIG = {
+  // 名前の最大文字数
+  NAME_MAX_LENGTH: 40,
+  // 選択中のワークスペースを保存する localStorage のキー
+  STORAGE_KEY: "dp_workspace",
+} as const;
+
+/**
+ * 選択中のワークスペースIDを取得（localStorage: dp_workspace）
+ */
+export function getCurrentWorkspaceId(): string | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  return localStorage.getItem(WORKSPACE_CONFIG.STORAGE_KEY);
+}
+
+/**
+ * 選択中のワークスペースIDを保存（localStorage: dp_workspace）
+ */
+export function setCurrentWorkspaceId(workspaceId: string): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+  localStorage.setItem(WORKSPACE_CONFIG.STORAGE_KEY, workspaceId);
+}
+
+/**
+ * 招待リンク（開いた人は招待コードを使ってメンバーに加わる）
+ */
+export function buildInviteUrl(origin: string, workspace: Workspace): string {
+  const params = new URLSearchParams({ w: workspace.id, code: workspace.inviteCode });
+  return `${origin}/workspaces/join?${params.toString()}`;
+}
+
+/**
+ * ワークスペースを作成して ID を返す（作成者が最初のメンバー）
+ */
+export async function createWorkspace(name: string, uid: string): Promise<string> {
+  const ref = doc(collection(db, "workspaces"));
+  await setDoc(ref, {
+    name: name.trim().slice(0, WORKSPACE_CONFIG.NAME_MAX_LENGTH),
+    ownerId: uid,
+    memberIds: [uid],
+    inviteCode: generateClaimCode(),
+    createdAt: serverTimestamp(),
+  });
+  return ref.id;
+}
+
+/**
+ * 招待コードでワークスペースに参加する
+ * 同じバッチで joinClaims/{uid} に書いたコードをルールで照合する
+ */
+export async function joinWorkspace(
+  workspaceId: string,
+  code: string,
+  uid: string
+): Promise<void> {
+  const batch = writeBatch(db);
+  batch.set(doc(db, "workspaces", workspaceId, "joinClaims", uid), {
+    code: code.trim().toUpperCase(),
+  });
+  batch.update(doc(db, "workspaces", workspaceId), {
+    memberIds: arrayUnion(uid),
+  });
+  await batch.commit();
+}
+
+/**
+ * 招待コードを作り直す（以前の招待リンクは使えなくなる）
+ */
+export async function resetInviteCode(workspaceId: string): Promise<void> {
+  await updateDoc(doc(db, "workspaces", workspaceId), {
+    inviteCode: generateClaimCode(),
+  });
+}
+
+/**
+ * 参加しているワークスペースと選択中のワークスペース
+ * 読み込みが終わるまで workspaces は null、未参加なら current は null
+ */
+export function useWorkspaces(uid: string | null | undefined) {
+  const [workspaces, setWorkspaces] = useState<Workspace[] | null>(null);
+  // サーバー側の描画では null（workspaces も null のため表示は変わらない）
+  const [selectedId, setSelectedId] = useState<string | null>(
+    getCurrentWorkspaceId
+  );
+
+  useEffect(() => {
+    if (!uid) return;
+
+    const q = query(
+      collection(db, "workspaces"),
+      where("memberIds", "array-contains", uid)
+    );
+    const unsub = onSnapshot(
+      q,
+      (snap) => {
+        setWorkspaces(
+          snap.docs
+            .map((d) => ({ id: d.id, ...(d.data() as Omit<Workspace, "id">) }))
+            .sort((a, b) => a.name.localeCompare(b.name))
+        );
+      },
+      (err) => {
+        console.error("Error subscribing workspaces:", err);
+        setWorkspaces([]);
+      }
+    );
+
+    return () => unsub();
+  }, [uid]);
+
+  const current =
+    workspaces?.find((w) => w.id === selectedId) ?? workspaces?.[0] ?? null;
+
+  const selectWorkspace = (workspaceId: string) => {
+    setCurrentWorkspaceId(workspaceId);
+    setSelectedId(workspaceId);
+  };
+
+  return { workspaces, current, selectWorkspace };
+}